@@ -1,19 +1,153 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Login from './components/Login';
 import ConfigModal from './components/ConfigModal';
 import Sidebar from './components/Sidebar';
 import ResultsTable from './components/ResultsTable';
-import { runQuery } from './services/queryEngine';
-import { initializeFirebase, isFirebaseInitialized, executeUpdate, executeInsert } from './services/firebaseService';
-import { AppState, FirebaseConfig, QueryHistoryItem, QueryResult } from './types';
+import QueryEditor from './components/QueryEditor';
+import ScriptResults from './components/ScriptResults';
+import ParametersPanel from './components/ParametersPanel';
+import LiveChangeLog from './components/LiveChangeLog';
+import SaveQueryModal from './components/SaveQueryModal';
+import ProductionConfirmModal from './components/ProductionConfirmModal';
+import EnvironmentBadge from './components/EnvironmentBadge';
+import { commitWrite, insertRow, isLiveQuery, isWatchable, listWrites, runQuery, runScript, watchQuery } from './services/queryEngine';
+import { clearEmulatorData, initializeFirebase, isFirebaseInitialized, executeUpdate, PATH_COLUMN } from './services/firebaseService';
+import { findParameters, parameterLabel, QueryParams, toQueryParams } from './services/parameters';
+import { indexesFile, mergeIndexes } from './services/indexes';
+import { sampleSchema } from './services/schema';
+import { fieldPathsOf, schemaPaths } from './services/language';
+import { libraryFile, mergeLibrary, parseLibraryFile } from './services/library';
+import { newLocalId } from './services/ids';
+import { deleteHistoryItem, historyFile, loadHistory, overflowHistory, parseHistoryFile, saveHistoryItems } from './services/history';
+import { AppState, CollectionSchema, ConnectionProfile, IndexDefinition, LiveChange, QueryHistoryItem, QueryParameter, QueryResult, SavedQuery, ScriptResult } from './types';
+
+// Parameter values are remembered per query text; the oldest entries are dropped first
+const SAVED_PARAMETERS_KEY = 'fireSQL_parameters';
+const MAX_SAVED_PARAMETER_SETS = 50;
+
+const loadSavedParameters = (): Record<string, QueryParameter[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_PARAMETERS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveParameters = (query: string, parameters: QueryParameter[]) => {
+  const saved = loadSavedParameters();
+  delete saved[query];
+  saved[query] = parameters;
+  const queries = Object.keys(saved);
+  queries.slice(0, Math.max(0, queries.length - MAX_SAVED_PARAMETER_SETS)).forEach(q => delete saved[q]);
+  localStorage.setItem(SAVED_PARAMETERS_KEY, JSON.stringify(saved));
+};
+
+// Entries kept in the live change log
+const MAX_CHANGE_LOG = 200;
+
+// Composite indexes collected from EXPLAIN and missing-index errors, for firestore.indexes.json
+const SAVED_INDEXES_KEY = 'fireSQL_indexes';
+
+const loadSavedIndexes = (): IndexDefinition[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_INDEXES_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Inferred collection schemas, kept until refreshed from the sidebar
+const SAVED_SCHEMAS_KEY = 'fireSQL_schemas';
+
+const loadSavedSchemas = (): Record<string, CollectionSchema> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_SCHEMAS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// Named connections; the active one is reconnected after signing in
+const PROFILES_KEY = 'fireSQL_profiles';
+const ACTIVE_PROFILE_KEY = 'fireSQL_activeProfile';
+
+const loadProfiles = (): ConnectionProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// The saved-queries library; see services/library.ts for the shareable file format
+const SAVED_QUERIES_KEY = 'fireSQL_savedQueries';
+
+const loadSavedQueries = (): SavedQuery[] => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_QUERIES_KEY) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+// Saves text as a file through a temporary download link
+const downloadFile = (name: string, content: string) => {
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', name);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// What a history entry records about the results of one run
+const summarizeRun = (results: QueryResult[]) => {
+  const failed = results.find(r => r.type === 'error');
+  return {
+    status: failed ? 'error' as const : 'success' as const,
+    rowCount: results.reduce((n, r) => n + (r.type === 'error' ? 0 : r.rows.length), 0),
+    collection: results.find(r => r.collectionName)?.collectionName,
+    error: failed?.message,
+  };
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.LOGIN);
   const [query, setQuery] = useState<string>('SELECT * FROM users LIMIT 5');
   const [result, setResult] = useState<QueryResult | null>(null);
+  // Query text that produced `result`, so diagnostics are only drawn while it is unchanged
+  const [resultQuery, setResultQuery] = useState<string>('');
+  // One entry per statement when the editor holds a script; `result` mirrors the active one
+  const [scriptResults, setScriptResults] = useState<ScriptResult[]>([]);
+  const [activeResult, setActiveResult] = useState(0);
   const [loading, setLoading] = useState(false);
   const [history, setHistory] = useState<QueryHistoryItem[]>([]);
-  const [config, setConfig] = useState<FirebaseConfig | null>(null);
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(() => localStorage.getItem(ACTIVE_PROFILE_KEY));
+  // Profile open in the connection dialog; undefined creates a new one
+  const [editingProfileId, setEditingProfileId] = useState<string | undefined>(activeProfileId ?? undefined);
+  // Script held back until its writes to a production profile are confirmed
+  const [pendingRun, setPendingRun] = useState<{ writes: string[]; run: () => void } | null>(null);
+  // Form values for the :name / $1 placeholders in the editor, and the typed values of the last run
+  const [parameters, setParameters] = useState<QueryParameter[]>([]);
+  const [runParams, setRunParams] = useState<QueryParams>({});
+  const [confirmEdits, setConfirmEdits] = useState(() => localStorage.getItem('fireSQL_confirmEdits') === 'true');
+  const [indexes, setIndexes] = useState<IndexDefinition[]>(loadSavedIndexes);
+  const [schemas, setSchemas] = useState<Record<string, CollectionSchema>>(loadSavedSchemas);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
+  // Saved query open in the save/edit dialog
+  const [editingQuery, setEditingQuery] = useState<SavedQuery | null>(null);
+  // Field paths seen in fetched rows, per collection, for editor completion
+  const [fieldCache, setFieldCache] = useState<Record<string, string[]>>({});
+  // Live queries: the Watch toggle, the open listener and the changes it reported
+  const [watch, setWatch] = useState(false);
+  const [live, setLive] = useState(false);
+  const [changeLog, setChangeLog] = useState<LiveChange[]>([]);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   
   // Pagination State
   const [page, setPage] = useState(1);
@@ -47,10 +181,45 @@ const App: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    const names = findParameters(query);
+    if (!names) return; // Keep the form while the query does not parse
+    const saved = loadSavedParameters()[query] ?? [];
+    setParameters(prev => names.map(name =>
+      saved.find(p => p.name === name) ?? prev.find(p => p.name === name) ?? { name, type: 'string', value: '' }
+    ));
+  }, [query]);
+
+  useEffect(() => {
+    // Joined and grouped rows have computed columns rather than document fields
+    if (result?.type !== 'read' || !result.collectionName || result.readOnly) return;
+    const name = result.collectionName;
+    const paths = fieldPathsOf(result.rows);
+    setFieldCache(prev => ({ ...prev, [name]: Array.from(new Set([...(prev[name] ?? []), ...paths])) }));
+  }, [result]);
+
+  const editorFields = useMemo(() => {
+    const merged: Record<string, string[]> = { ...fieldCache };
+    for (const [name, schema] of Object.entries(schemas)) {
+      merged[name] = Array.from(new Set([...(merged[name] ?? []), ...schemaPaths(schema)]));
+    }
+    return merged;
+  }, [fieldCache, schemas]);
+
+  useEffect(() => {
+    refreshHistory().catch(e => console.error('Error loading history', e));
+  }, []);
+
+  // Close the listener when the app goes away
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+  const config = activeProfile?.config ?? null;
+
   useEffect(() => {
     // If we have config but app isn't initialized, init it.
     if (config && !isFirebaseInitialized()) {
-      const success = initializeFirebase(config);
+      const success = initializeFirebase(config, activeProfile?.emulator);
       if (!success) {
         alert("Failed to initialize Firebase with provided config.");
       }
@@ -66,9 +235,28 @@ const App: React.FC = () => {
     }
   };
 
-  const handleConfigSave = (newConfig: FirebaseConfig) => {
-    setConfig(newConfig);
-    const success = initializeFirebase(newConfig);
+  // Results, listeners and paging cursors belong to the previous database
+  const connectProfile = (profile: ConnectionProfile) => {
+    stopLive();
+    setChangeLog([]);
+    setResult(null);
+    setResultQuery('');
+    setScriptResults([]);
+    setPage(1);
+    setCursors([null]);
+    setActiveProfileId(profile.id);
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+    return initializeFirebase(profile.config, profile.emulator);
+  };
+
+  const saveProfiles = (next: ConnectionProfile[]) => {
+    setProfiles(next);
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(next));
+  };
+
+  const handleConfigSave = (profile: ConnectionProfile) => {
+    saveProfiles(profiles.some(p => p.id === profile.id) ? profiles.map(p => (p.id === profile.id ? profile : p)) : [...profiles, profile]);
+    const success = connectProfile(profile);
     if (success) {
       setAppState(AppState.EDITOR);
     } else {
@@ -76,6 +264,55 @@ const App: React.FC = () => {
     }
   };
 
+  const handleDeleteProfile = (id: string) => {
+    const remaining = profiles.filter(p => p.id !== id);
+    saveProfiles(remaining);
+    if (id !== activeProfileId) {
+      setAppState(AppState.EDITOR);
+    } else if (remaining.length > 0) {
+      connectProfile(remaining[0]);
+      setAppState(AppState.EDITOR);
+    } else {
+      // Nothing left to connect to: stay in the dialog with a blank profile
+      setActiveProfileId(null);
+      localStorage.removeItem(ACTIVE_PROFILE_KEY);
+      setEditingProfileId(undefined);
+    }
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || id === activeProfileId) return;
+    if (!connectProfile(profile)) {
+      alert("Could not connect to Firebase. Check console for errors.");
+    }
+  };
+
+  // Emulator targets only: wipes every document so tests and demos start clean
+  const handleClearEmulatorData = async () => {
+    if (!activeProfile?.emulator) return;
+    const { host, port } = activeProfile.emulator;
+    if (!window.confirm(`Delete ALL documents in the emulator at ${host}:${port} (project ${activeProfile.config.projectId})?`)) return;
+
+    setLoading(true);
+    setScriptResults([]);
+    setPage(1);
+    setCursors([null]);
+    try {
+      await clearEmulatorData();
+      setResult({ type: 'write', columns: [], rows: [], message: `Cleared all data in the emulator at ${host}:${port}` });
+    } catch (e: any) {
+      setResult({ type: 'error', columns: [], rows: [], message: e.message });
+    }
+    setResultQuery('');
+    setLoading(false);
+  };
+
+  const openProfileDialog = (id?: string) => {
+    setEditingProfileId(id);
+    setAppState(AppState.CONFIG);
+  };
+
   const handleConfigCancel = () => {
     // If we are already connected, go back to editor. 
     // If not connected (initial setup), go back to login.
@@ -98,32 +335,232 @@ const App: React.FC = () => {
     const newCols = collections.filter(c => c !== name);
     setCollections(newCols);
     localStorage.setItem('fireSQL_collections', JSON.stringify(newCols));
+    updateSchemas(prev => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const updateSchemas = (update: (prev: Record<string, CollectionSchema>) => Record<string, CollectionSchema>) => {
+    setSchemas(prev => {
+      const next = update(prev);
+      localStorage.setItem(SAVED_SCHEMAS_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Errors are shown by the sidebar next to the collection
+  const handleRefreshSchema = async (name: string) => {
+    const schema = await sampleSchema(name);
+    updateSchemas(prev => ({ ...prev, [name]: schema }));
+  };
+
+  const updateSavedQueries = (update: (prev: SavedQuery[]) => SavedQuery[]) => {
+    setSavedQueries(prev => {
+      const next = update(prev);
+      localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const handleSaveCurrentQuery = () => {
+    setEditingQuery({ id: newLocalId(), name: '', query, parameters, updatedAt: Date.now() });
+  };
+
+  const handleSaveQuery = (saved: SavedQuery) => {
+    updateSavedQueries(prev => (prev.some(q => q.id === saved.id) ? prev.map(q => (q.id === saved.id ? saved : q)) : [...prev, saved]));
+    setEditingQuery(null);
+  };
+
+  const handleDeleteSavedQuery = (id: string) => {
+    updateSavedQueries(prev => prev.filter(q => q.id !== id));
+  };
+
+  const handleExportSavedQueries = () => downloadFile('fireSQL-queries.json', libraryFile(savedQueries));
+
+  const handleImportSavedQueries = async (text: string) => {
+    const imported = parseLibraryFile(text);
+    updateSavedQueries(prev => mergeLibrary(prev, imported));
+  };
+
+  const handleAddIndexes = (added: IndexDefinition[]) => {
+    setIndexes(prev => {
+      const next = mergeIndexes(prev, added);
+      localStorage.setItem(SAVED_INDEXES_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  const handleClearIndexes = () => {
+    setIndexes([]);
+    localStorage.removeItem(SAVED_INDEXES_KEY);
+  };
+
+  // Missing-index errors are collected as they happen
+  const collectMissingIndexes = (results: QueryResult[]) => {
+    const added = results.flatMap(r => (r.type === 'error' ? r.indexes ?? [] : []));
+    if (added.length > 0) handleAddIndexes(added);
+  };
+
+  const handleDownloadIndexes = () => downloadFile('firestore.indexes.json', indexesFile(indexes));
+
+  // Loads the stored history, dropping entries beyond the limit
+  const refreshHistory = async () => {
+    const items = await loadHistory();
+    const dropped = overflowHistory(items);
+    await Promise.all(dropped.map(item => deleteHistoryItem(item.id)));
+    setHistory(items.filter(item => !dropped.includes(item)));
+  };
+
+  const addHistory = (entry: Omit<QueryHistoryItem, 'id' | 'timestamp' | 'projectId'>) => {
+    const item: QueryHistoryItem = { id: newLocalId(), timestamp: Date.now(), projectId: config?.projectId, ...entry };
+    setHistory(prev => {
+      const next = [...prev, item];
+      const dropped = overflowHistory(next);
+      dropped.forEach(d => deleteHistoryItem(d.id).catch(e => console.error('Failed to prune history', e)));
+      return next.filter(h => !dropped.includes(h));
+    });
+    saveHistoryItems([item]).catch(e => console.error('Failed to save history', e));
+  };
+
+  const handleTogglePinHistory = (id: string) => {
+    const item = history.find(h => h.id === id);
+    if (!item) return;
+    const updated = { ...item, pinned: !item.pinned };
+    setHistory(prev => prev.map(h => (h.id === id ? updated : h)));
+    saveHistoryItems([updated]).catch(e => console.error('Failed to save history', e));
+  };
+
+  const handleDeleteHistory = (id: string) => {
+    setHistory(prev => prev.filter(h => h.id !== id));
+    deleteHistoryItem(id).catch(e => console.error('Failed to delete history', e));
+  };
+
+  const handleExportHistory = () => downloadFile('fireSQL-history.json', historyFile(history));
+
+  // Entries with an ID already in the history replace it
+  const handleImportHistory = async (text: string) => {
+    await saveHistoryItems(parseHistoryFile(text));
+    await refreshHistory();
+  };
+
+  const stopLive = () => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+    setLive(false);
+  };
+
+  const handleStopLive = () => {
+    stopLive();
+    setResult(prev => prev && { ...prev, message: `${prev.message} — stopped listening` });
+  };
+
+  // LIVE SELECT, or any SELECT while Watch is on: every snapshot replaces the result
+  const startLive = (q: string, params: QueryParams) => {
+    setScriptResults([]);
+    setChangeLog([]);
+    setResultQuery(q);
+    setLoading(true);
+    setLive(true);
+    const started = performance.now();
+    let recorded = false;
+    unsubscribeRef.current = watchQuery(q, params, res => {
+      setLoading(false);
+      setResult(res);
+      // History records how the listener started: its first snapshot or error
+      if (!recorded) {
+        recorded = true;
+        addHistory({ query: q, durationMs: performance.now() - started, ...summarizeRun([res]) });
+      }
+      if (res.type === 'error') {
+        // Firestore ends a listener after an error
+        unsubscribeRef.current = null;
+        setLive(false);
+      }
+      if (res.changes?.length) {
+        setChangeLog(prev => [...res.changes!.slice().reverse(), ...prev].slice(0, MAX_CHANGE_LOG));
+      }
+    });
   };
 
   // Core execution wrapper
   const fetchData = async (q: string, cursor: any) => {
       setLoading(true);
-      const res = await runQuery(q, cursor);
+      const res = await runQuery(q, cursor, runParams);
+      collectMissingIndexes([res]);
       setResult(res);
+      setResultQuery(q);
       setLoading(false);
       return res;
   };
 
-  const handleRunQuery = async (overrideQuery?: string) => {
+  const handleRunQuery = async (overrideQuery?: string, overrideParameters?: QueryParameter[]) => {
     const qToRun = overrideQuery || query;
     if (!qToRun.trim()) return;
-    
+    stopLive();
+
+    // Only the parameters this query uses are converted, so stale form fields cannot block it
+    const names = findParameters(qToRun) ?? [];
+    const used = (overrideParameters ?? parameters).filter(p => names.includes(p.name));
+    let params: QueryParams;
+    try {
+      params = toQueryParams(used);
+    } catch (e: any) {
+      setScriptResults([]);
+      setResult({ type: 'error', columns: [], rows: [], message: e.message });
+      setResultQuery(qToRun);
+      return;
+    }
+    if (used.length > 0) saveParameters(qToRun, used);
+
+    if (activeProfile?.production) {
+      const writes = listWrites(qToRun);
+      if (writes.length > 0) {
+        setPendingRun({ writes, run: () => executeRun(qToRun, params) });
+        return;
+      }
+    }
+    await executeRun(qToRun, params);
+  };
+
+  const executeRun = async (qToRun: string, params: QueryParams) => {
+    setRunParams(params);
+
     // Reset pagination for fresh queries
     setPage(1);
     setCursors([null]);
-    
-    const res = await fetchData(qToRun, null);
 
-    setHistory(prev => [...prev, { 
-      query: qToRun, 
-      timestamp: Date.now(), 
-      status: res.type === 'error' ? 'error' : 'success' 
-    }]);
+    if ((watch && isWatchable(qToRun)) || isLiveQuery(qToRun)) {
+      startLive(qToRun, params);
+      return;
+    }
+
+    setLoading(true);
+    const started = performance.now();
+    const results = await runScript(qToRun, params);
+    const durationMs = performance.now() - started;
+    // Open the statement that needs attention (failure or pending confirmation), else the last one
+    const attention = results.findIndex(r => r.result.type === 'error' || r.result.pendingWrite);
+    const index = attention >= 0 ? attention : results.length - 1;
+    collectMissingIndexes(results.map(r => r.result));
+    setScriptResults(results);
+    setActiveResult(index);
+    setResult(results[index].result);
+    setResultQuery(qToRun);
+    setLoading(false);
+
+    addHistory({ query: qToRun, durationMs, ...summarizeRun(results.map(r => r.result)) });
+  };
+
+  const handleSelectResult = (index: number) => {
+    setActiveResult(index);
+    setResult(scriptResults[index].result);
+  };
+
+  // Replaces the active result, keeping the script's result list in sync
+  const showResult = (res: QueryResult) => {
+    setResult(res);
+    setScriptResults(prev => prev.map((r, i) => (i === activeResult ? { ...r, result: res } : r)));
   };
   
   // Specific handler for Sidebar clicks to auto-execute
@@ -133,6 +570,56 @@ const App: React.FC = () => {
       handleRunQuery(autoQuery);
   };
 
+  const handleRunHistory = (q: string) => {
+      setQuery(q);
+      handleRunQuery(q);
+  };
+
+  // Parameter values for a saved query: the entry's defaults, then the values last
+  // used with that exact text. Values from whatever was in the editor are not reused.
+  const savedQueryParameters = (saved: SavedQuery) => {
+    const remembered = loadSavedParameters()[saved.query] ?? [];
+    return (findParameters(saved.query) ?? []).map(name =>
+      saved.parameters?.find(p => p.name === name) ?? remembered.find(p => p.name === name)
+    );
+  };
+
+  // Loads a saved query into the editor, with its parameters in the form
+  const handleOpenSavedQuery = (saved: SavedQuery) => {
+    const names = findParameters(saved.query) ?? [];
+    const values = savedQueryParameters(saved).map((p, i) => p ?? { name: names[i], type: 'string' as const, value: '' });
+    if (values.length > 0) {
+      saveParameters(saved.query, values);
+      // The form only reloads when the query text changes
+      if (saved.query === query) setParameters(values);
+    }
+    setQuery(saved.query);
+  };
+
+  const handleRunSavedQuery = (saved: SavedQuery) => {
+    const known = savedQueryParameters(saved);
+    handleOpenSavedQuery(saved);
+
+    // A value never given, or a blank number or date, is filled in the form first
+    const names = findParameters(saved.query) ?? [];
+    const missing = names.filter((_, i) => {
+      const p = known[i];
+      return !p || ((p.type === 'number' || p.type === 'timestamp') && !p.value.trim());
+    });
+    if (missing.length > 0) {
+      setScriptResults([]);
+      setResult({
+        type: 'error',
+        columns: [],
+        rows: [],
+        message: `'${saved.name}' needs ${missing.map(parameterLabel).join(', ')}: fill in the parameters form, then run it.`
+      });
+      setResultQuery(saved.query);
+      return;
+    }
+    handleRunQuery(saved.query, known.filter((p): p is QueryParameter => !!p));
+  };
+
   const handleNextPage = async () => {
       if (!result || !result.lastDoc) return;
 
@@ -165,10 +652,42 @@ const App: React.FC = () => {
       await fetchData(query, prevCursor);
   };
 
+  // Commits the write shown in a preview result
+  const handleConfirmWrite = async () => {
+    if (!result?.pendingWrite) return;
+    setLoading(true);
+    const started = performance.now();
+    const res = await commitWrite(result.pendingWrite);
+    const durationMs = performance.now() - started;
+    showResult(res);
+    setLoading(false);
+
+    addHistory({
+      query: `${scriptResults[activeResult]?.statement ?? resultQuery} (Confirmed)`,
+      durationMs,
+      ...summarizeRun([res])
+    });
+  };
+
+  const handleCancelWrite = () => {
+    if (!result) return;
+    showResult({ ...result, pendingWrite: undefined, message: 'Write cancelled. Nothing was committed.' });
+  };
+
+  const handleToggleConfirmEdits = (enabled: boolean) => {
+    setConfirmEdits(enabled);
+    localStorage.setItem('fireSQL_confirmEdits', String(enabled));
+  };
+
   const handleCellUpdate = async (docId: string, field: string, value: any) => {
     if (!result || !result.collectionName) return;
     
-    const col = result.collectionName;
+    // Rows carry their full document path; group queries and single-document
+    // reads may not live directly under collectionName
+    const docPath: string | undefined = result.rows.find(r => r.id === docId)?.[PATH_COLUMN];
+    const col = docPath ? docPath.slice(0, docPath.lastIndexOf('/')) : result.collectionName;
+    // Projected columns may be aliases or nested paths; write to the underlying field
+    const fieldPath = result.fieldPaths?.[field] ?? field;
 
     // 1. Optimistic Update (UI updates immediately)
     setResult(prev => {
@@ -186,15 +705,16 @@ const App: React.FC = () => {
 
     try {
       // 2. Actual Update
-      await executeUpdate(col, docId, { [field]: value });
+      await executeUpdate(col, docId, { [fieldPath]: value });
       
       // 3. Log to history (simulating a query)
       const valStr = typeof value === 'object' ? 'JSON {...}' : String(value);
-      setHistory(prev => [...prev, { 
-        query: `UPDATE ${col} SET ${field} = ${valStr} WHERE id = '${docId}' (Inline Edit)`, 
-        timestamp: Date.now(), 
-        status: 'success' 
-      }]);
+      addHistory({ 
+        query: `UPDATE ${col} SET ${fieldPath} = ${valStr} WHERE id = '${docId}' (Inline Edit)`, 
+        status: 'success',
+        collection: col,
+        rowCount: 1
+      });
     } catch (e: any) {
       console.error("Update failed", e);
       alert(`Failed to save changes: ${e.message}`);
@@ -202,32 +722,39 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRowInsert = async (data: any) => {
+  const handleRowInsert = (data: any) => {
     if (!result || !result.collectionName) return;
     const col = result.collectionName;
-    
-    try {
-       const newDoc = await executeInsert(col, data);
-       
-       // Optimistic update
-       setResult(prev => {
-           if (!prev) return null;
-           return {
-               ...prev,
-               rows: [newDoc, ...prev.rows],
-               message: `Document added locally. (ID: ${newDoc.id})`
-           }
-       });
-       
-       // History
-       setHistory(prev => [...prev, {
-           query: `INSERT INTO ${col} JSON ${JSON.stringify(data)}`,
-           timestamp: Date.now(),
-           status: 'success'
-       }]);
-    } catch(e: any) {
-        alert("Failed to insert: " + e.message);
+    if (activeProfile?.production) {
+      const statement = `INSERT INTO ${col} JSON ${JSON.stringify(data)}`;
+      setPendingRun({ writes: [statement], run: () => executeRowInsert(col, data) });
+      return;
+    }
+    executeRowInsert(col, data);
+  };
+
+  const executeRowInsert = async (col: string, data: any) => {
+    // Same path as INSERT: an 'id' field names the document, an existing one is overwritten
+    const res = await insertRow(col, data);
+    addHistory({
+      query: `INSERT INTO ${col} JSON ${JSON.stringify(data)}`,
+      ...summarizeRun([res])
+    });
+    if (res.type === 'error') {
+      alert("Failed to insert: " + res.message);
+      return;
     }
+
+    const { id, ...fields } = data;
+    const newDoc = { id: res.rows[0].id, ...fields };
+    setResult(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        rows: [newDoc, ...prev.rows.filter(r => r.id !== newDoc.id)],
+        message: `${res.message} (shown locally)`
+      };
+    });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -236,6 +763,12 @@ const App: React.FC = () => {
     }
   };
 
+  const editorDiagnostic = resultQuery === query ? result?.diagnostics?.[0] : undefined;
+  // Paging re-runs the editor text, which only works for a single statement
+  const isScript = scriptResults.length > 1;
+  // Live results always show the whole (limited) query
+  const canPage = !isScript && !result?.live;
+
   if (appState === AppState.LOGIN) {
     return <Login onLogin={handleLoginSuccess} />;
   }
@@ -244,9 +777,32 @@ const App: React.FC = () => {
     <div className="flex h-screen w-full bg-white">
       {appState === AppState.CONFIG && (
         <ConfigModal 
+            key={editingProfileId ?? 'new'}
             onSave={handleConfigSave} 
             onCancel={handleConfigCancel}
-            initialConfig={config || undefined} 
+            onDelete={handleDeleteProfile}
+            initialProfile={profiles.find(p => p.id === editingProfileId)} 
+        />
+      )}
+
+      {pendingRun && activeProfile && (
+        <ProductionConfirmModal
+            profile={activeProfile}
+            statements={pendingRun.writes}
+            onConfirm={() => {
+              setPendingRun(null);
+              pendingRun.run();
+            }}
+            onCancel={() => setPendingRun(null)}
+        />
+      )}
+
+      {editingQuery && (
+        <SaveQueryModal
+            initial={editingQuery}
+            library={savedQueries}
+            onSave={handleSaveQuery}
+            onCancel={() => setEditingQuery(null)}
         />
       )}
 
@@ -257,60 +813,129 @@ const App: React.FC = () => {
         onAddCollection={handleAddCollection}
         onRemoveCollection={handleRemoveCollection}
         onSelectQuery={setQuery} // For cheatsheet/history
+        onRunQuery={handleRunHistory}
+        onTogglePinHistory={handleTogglePinHistory}
+        onDeleteHistory={handleDeleteHistory}
+        onExportHistory={handleExportHistory}
+        onImportHistory={handleImportHistory}
+        savedQueries={savedQueries}
+        onOpenSavedQuery={handleOpenSavedQuery}
+        onRunSavedQuery={handleRunSavedQuery}
+        onSaveCurrentQuery={handleSaveCurrentQuery}
+        onEditSavedQuery={setEditingQuery}
+        onDeleteSavedQuery={handleDeleteSavedQuery}
+        onExportSavedQueries={handleExportSavedQueries}
+        onImportSavedQueries={handleImportSavedQueries}
         onCollectionClick={handleCollectionSelect} // For direct clicks
+        schemas={schemas}
+        onRefreshSchema={handleRefreshSchema}
         onLogout={() => {
+            stopLive();
+            setChangeLog([]);
             setAppState(AppState.LOGIN);
-            setHistory([]);
             setResult(null);
+            setScriptResults([]);
             setPage(1);
             setCursors([null]);
         }}
-        onConfig={() => setAppState(AppState.CONFIG)}
+        onConfig={() => openProfileDialog(activeProfileId ?? undefined)}
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onSwitchProfile={handleSwitchProfile}
+        onNewProfile={() => openProfileDialog()}
       />
 
       <main className="flex-1 flex flex-col h-full overflow-hidden relative">
         {/* Query Editor Section */}
         <div className="h-1/3 min-h-[200px] border-b border-slate-200 flex flex-col bg-white">
           <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100 bg-slate-50">
-             <span className="text-xs font-semibold text-slate-500">SQL QUERY EDITOR</span>
-             <div className="text-xs text-slate-400 flex gap-2">
+             <div className="flex items-center gap-2">
+               <span className="text-xs font-semibold text-slate-500">SQL QUERY EDITOR</span>
+               {activeProfile && <EnvironmentBadge profile={activeProfile} />}
+               {activeProfile?.emulator && (
+                 <button onClick={handleClearEmulatorData} className="text-xs text-red-500 hover:underline" title="Delete every document in the emulator">
+                   Clear all data
+                 </button>
+               )}
+             </div>
+             <div className="text-xs text-slate-400 flex items-center gap-2">
+                {indexes.length > 0 && (
+                  <>
+                    <button onClick={handleDownloadIndexes} className="text-blue-600 hover:underline" title="Deploy with: firebase deploy --only firestore:indexes">
+                      firestore.indexes.json ({indexes.length})
+                    </button>
+                    <button onClick={handleClearIndexes} className="hover:text-red-500" title="Clear collected indexes">
+                      Clear
+                    </button>
+                    <span>·</span>
+                  </>
+                )}
                 <span>CMD+ENTER to Run</span>
              </div>
           </div>
           <div className="flex-1 relative group">
-            <textarea
+            <QueryEditor
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={setQuery}
               onKeyDown={handleKeyDown}
-              className="w-full h-full p-4 font-mono text-sm text-slate-800 outline-none resize-none"
+              diagnostic={editorDiagnostic}
               placeholder="SELECT * FROM collection LIMIT 5"
-              spellCheck={false}
+              collections={collections}
+              fields={editorFields}
             />
-            <button
+            <div className="absolute bottom-4 right-4 flex items-center gap-3">
+              <label className="flex items-center gap-1 text-xs text-slate-500 bg-white/80 px-2 py-1 rounded cursor-pointer select-none" title="Keep the results updated with onSnapshot (same as LIVE SELECT)">
+                <input
+                  type="checkbox"
+                  checked={watch}
+                  onChange={(e) => setWatch(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                Watch
+              </label>
+              <button
                 onClick={() => handleRunQuery()}
                 disabled={loading}
-                className="absolute bottom-4 right-4 px-6 py-2 bg-amber-500 hover:bg-amber-600 text-slate-900 font-bold rounded-full shadow-lg transition-all hover:scale-105 disabled:opacity-50 disabled:scale-100 flex items-center gap-2"
-            >
-                {loading ? 'Running...' : (
-                    <>
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                        RUN
-                    </>
-                )}
-            </button>
+                className="px-6 py-2 bg-amber-500 hover:bg-amber-600 text-slate-900 font-bold rounded-full shadow-lg transition-all hover:scale-105 disabled:opacity-50 disabled:scale-100 flex items-center gap-2"
+              >
+                  {loading ? 'Running...' : (
+                      <>
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                          RUN
+                      </>
+                  )}
+              </button>
+            </div>
           </div>
+          {parameters.length > 0 && (
+            <ParametersPanel parameters={parameters} onChange={setParameters} />
+          )}
         </div>
 
         {/* Results Section */}
+        {isScript && (
+          <ScriptResults results={scriptResults} active={activeResult} onSelect={handleSelectResult} />
+        )}
         <ResultsTable 
             result={result} 
             loading={loading} 
             onUpdateCell={handleCellUpdate}
             onInsertRow={handleRowInsert}
-            onNextPage={handleNextPage}
-            onPrevPage={handlePrevPage}
+            onNextPage={canPage ? handleNextPage : undefined}
+            onPrevPage={canPage ? handlePrevPage : undefined}
+            onConfirmWrite={handleConfirmWrite}
+            onCancelWrite={handleCancelWrite}
+            // Production profiles always review inline edits
+            confirmEdits={confirmEdits || !!activeProfile?.production}
+            onToggleConfirmEdits={activeProfile?.production ? undefined : handleToggleConfirmEdits}
+            onAddIndexes={handleAddIndexes}
+            onStopLive={live ? handleStopLive : undefined}
+            schema={result?.collectionName ? schemas[result.collectionName] : undefined}
             page={page}
         />
+        {result?.live && (
+          <LiveChangeLog changes={changeLog} onClear={() => setChangeLog([])} />
+        )}
       </main>
     </div>
   );
@@ -1,15 +1,32 @@
 import React, { useState } from 'react';
-import { FirebaseConfig } from '../types';
+import { ConnectionProfile, ProfileEnvironment } from '../types';
+import { newLocalId } from '../services/ids';
 
 interface Props {
-  onSave: (config: FirebaseConfig) => void;
+  onSave: (profile: ConnectionProfile) => void;
   onCancel: () => void;
-  initialConfig?: Partial<FirebaseConfig>;
+  onDelete?: (id: string) => void;
+  initialProfile?: ConnectionProfile; // Absent when creating a new profile
 }
 
-const ConfigModal: React.FC<Props> = ({ onSave, onCancel, initialConfig }) => {
+const ENVIRONMENTS: { value: ProfileEnvironment; label: string }[] = [
+  { value: 'development', label: 'Development' },
+  { value: 'staging', label: 'Staging' },
+  { value: 'production', label: 'Production' },
+  { value: 'other', label: 'Other' },
+];
+
+const ConfigModal: React.FC<Props> = ({ onSave, onCancel, onDelete, initialProfile }) => {
+  const [name, setName] = useState(initialProfile?.name ?? '');
+  const [environment, setEnvironment] = useState<ProfileEnvironment>(initialProfile?.environment ?? 'development');
+  const [production, setProduction] = useState(initialProfile?.production ?? false);
+  // Emulator connections only need an address and a project ID
+  const [useEmulator, setUseEmulator] = useState(!!initialProfile?.emulator);
+  const [emulatorHost, setEmulatorHost] = useState(initialProfile?.emulator?.host ?? 'localhost');
+  const [emulatorPort, setEmulatorPort] = useState(String(initialProfile?.emulator?.port ?? 8080));
+  const [emulatorProject, setEmulatorProject] = useState(initialProfile?.emulator ? initialProfile.config.projectId : 'demo-project');
   const [jsonInput, setJsonInput] = useState(
-    initialConfig ? JSON.stringify(initialConfig, null, 2) :
+    initialProfile ? JSON.stringify(initialProfile.config, null, 2) :
       `{
   "apiKey": "...",
   "authDomain": "...",
@@ -21,22 +38,52 @@ const ConfigModal: React.FC<Props> = ({ onSave, onCancel, initialConfig }) => {
   );
   const [error, setError] = useState('');
 
-  const handleSave = () => {
-    try {
-      const config = JSON.parse(jsonInput);
+  // The SDK wants a complete config, but the emulator ignores everything except the project
+  const emulatorSettings = (): Pick<ConnectionProfile, 'config' | 'emulator'> => {
+    const port = Number(emulatorPort);
+    if (!emulatorHost.trim()) {
+      throw new Error("Enter the emulator host, e.g. 'localhost'");
+    }
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error("Enter the emulator's Firestore port, e.g. 8080");
+    }
+    if (!emulatorProject.trim()) {
+      throw new Error("Enter the project ID the emulator was started with");
+    }
+    return {
+      config: { apiKey: 'emulator', authDomain: '', projectId: emulatorProject.trim(), storageBucket: '', messagingSenderId: '', appId: '' },
+      emulator: { host: emulatorHost.trim(), port },
+    };
+  };
+
+  const webSettings = (): Pick<ConnectionProfile, 'config' | 'emulator'> => {
+    const config = JSON.parse(jsonInput);
 
-      // Specific check for Service Account Key (server-side)
-      if (config.type === 'service_account' || config.private_key) {
-        throw new Error(
-          "This looks like a Service Account Key (server-side). This app requires the Client Web SDK config (apiKey, authDomain, etc.) found in Firebase Console > Project Settings > General > Your Apps."
-        );
-      }
+    // Specific check for Service Account Key (server-side)
+    if (config.type === 'service_account' || config.private_key) {
+      throw new Error(
+        "This looks like a Service Account Key (server-side). This app requires the Client Web SDK config (apiKey, authDomain, etc.) found in Firebase Console > Project Settings > General > Your Apps."
+      );
+    }
+
+    // Basic validation
+    if (!config.projectId || !config.apiKey) {
+      throw new Error("Config must contain at least 'projectId' and 'apiKey'");
+    }
+    return { config };
+  };
 
-      // Basic validation
-      if (!config.projectId || !config.apiKey) {
-        throw new Error("Config must contain at least 'projectId' and 'apiKey'");
-      }
-      onSave(config);
+  const handleSave = () => {
+    try {
+      const settings = useEmulator ? emulatorSettings() : webSettings();
+      onSave({
+        id: initialProfile?.id ?? newLocalId(),
+        // Unnamed profiles go by their project
+        name: name.trim() || settings.config.projectId,
+        environment,
+        production,
+        ...settings
+      });
     } catch (e: any) {
       setError(e.message || "Invalid JSON");
     }
@@ -46,20 +93,91 @@ const ConfigModal: React.FC<Props> = ({ onSave, onCancel, initialConfig }) => {
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200">
         <div className="bg-slate-100 p-4 border-b border-slate-200">
-          <h2 className="text-lg font-bold text-slate-800">Connect Database</h2>
-          <p className="text-sm text-slate-500">Paste your Firebase Web SDK configuration object below.</p>
+          <h2 className="text-lg font-bold text-slate-800">{initialProfile ? 'Edit Connection' : 'Connect Database'}</h2>
+          <p className="text-sm text-slate-500">Name the connection, then paste your Firebase Web SDK configuration object or point it at a local emulator.</p>
         </div>
 
         <div className="p-6 space-y-4">
-          <textarea
-            value={jsonInput}
-            onChange={(e) => {
-              setJsonInput(e.target.value);
-              setError('');
-            }}
-            className={`w-full h-64 p-3 font-mono text-sm bg-slate-900 text-green-400 rounded-lg focus:ring-2 outline-none resize-none ${error ? 'ring-2 ring-red-500 focus:ring-red-500' : 'focus:ring-blue-500'}`}
-            spellCheck={false}
-          />
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-slate-600 space-y-1">
+              <span>Profile name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Staging"
+                className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-400"
+              />
+            </label>
+            <label className="text-xs font-medium text-slate-600 space-y-1">
+              <span>Environment</span>
+              <select
+                value={environment}
+                onChange={(e) => {
+                  const value = e.target.value as ProfileEnvironment;
+                  setEnvironment(value);
+                  // Safe default; it can still be unticked
+                  if (value === 'production') setProduction(true);
+                }}
+                className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-400 bg-white"
+              >
+                {ENVIRONMENTS.map(env => <option key={env.value} value={env.value}>{env.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={production}
+              onChange={(e) => setProduction(e.target.checked)}
+              className="rounded border-slate-300"
+            />
+            Production: ask for confirmation before every write
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={useEmulator}
+              onChange={(e) => {
+                setUseEmulator(e.target.checked);
+                setError('');
+              }}
+              className="rounded border-slate-300"
+            />
+            Local Firestore emulator (no API key needed)
+          </label>
+
+          {useEmulator ? (
+            <div className="grid grid-cols-[2fr_1fr_2fr] gap-3">
+              {[
+                { label: 'Host', value: emulatorHost, onChange: setEmulatorHost, placeholder: 'localhost' },
+                { label: 'Port', value: emulatorPort, onChange: setEmulatorPort, placeholder: '8080' },
+                { label: 'Project ID', value: emulatorProject, onChange: setEmulatorProject, placeholder: 'demo-project' },
+              ].map(field => (
+                <label key={field.label} className="text-xs font-medium text-slate-600 space-y-1">
+                  <span>{field.label}</span>
+                  <input
+                    value={field.value}
+                    onChange={(e) => {
+                      field.onChange(e.target.value);
+                      setError('');
+                    }}
+                    placeholder={field.placeholder}
+                    className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-blue-400"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={jsonInput}
+              onChange={(e) => {
+                setJsonInput(e.target.value);
+                setError('');
+              }}
+              className={`w-full h-48 p-3 font-mono text-sm bg-slate-900 text-green-400 rounded-lg focus:ring-2 outline-none resize-none ${error ? 'ring-2 ring-red-500 focus:ring-red-500' : 'focus:ring-blue-500'}`}
+              spellCheck={false}
+            />
+          )}
 
           {error && (
             <div className="p-3 bg-red-50 text-red-700 text-xs rounded-lg border border-red-200 flex gap-2 items-start">
@@ -70,9 +188,18 @@ const ConfigModal: React.FC<Props> = ({ onSave, onCancel, initialConfig }) => {
         </div>
 
         <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3">
-          <button
-            onClick={() => {
-              setJsonInput(`{
+          {initialProfile && onDelete && (
+            <button
+              onClick={() => window.confirm(`Delete the connection profile '${initialProfile.name}'?`) && onDelete(initialProfile.id)}
+              className="mr-auto px-4 py-2 text-sm text-red-600 hover:text-red-800 transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          {!useEmulator && (
+            <button
+              onClick={() => {
+                setJsonInput(`{
   "apiKey": "",
   "authDomain": "",
   "projectId": "",
@@ -80,12 +207,13 @@ const ConfigModal: React.FC<Props> = ({ onSave, onCancel, initialConfig }) => {
   "messagingSenderId": "",
   "appId": ""
 }`);
-              setError('');
-            }}
-            className="px-4 py-2 text-sm text-slate-600 hover:text-slate-900 transition-colors"
-          >
-            Clear
-          </button>
+                setError('');
+              }}
+              className="px-4 py-2 text-sm text-slate-600 hover:text-slate-900 transition-colors"
+            >
+              Clear
+            </button>
+          )}
           <button
             onClick={onCancel}
             className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ConnectionProfile, ProfileEnvironment } from '../types';
+
+interface Props {
+  profile: ConnectionProfile;
+}
+
+export const ENVIRONMENT_LABELS: Record<ProfileEnvironment, string> = {
+  development: 'DEV',
+  staging: 'STAGING',
+  production: 'PROD',
+  other: 'OTHER',
+};
+
+const ENVIRONMENT_STYLES: Record<ProfileEnvironment, string> = {
+  development: 'bg-green-100 text-green-700 border-green-200',
+  staging: 'bg-amber-100 text-amber-700 border-amber-200',
+  production: 'bg-red-100 text-red-700 border-red-200',
+  other: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+// Which connection the editor talks to, colored by environment
+const EnvironmentBadge: React.FC<Props> = ({ profile }) => (
+  <span className="inline-flex items-center gap-1">
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded border text-[10px] font-bold ${ENVIRONMENT_STYLES[profile.environment]}`}
+      title={`Project ${profile.config.projectId}${profile.production ? ' — writes need confirmation' : ''}`}
+    >
+      {ENVIRONMENT_LABELS[profile.environment]}
+      <span className="font-medium">{profile.name}</span>
+      {profile.production && <span>🔒</span>}
+    </span>
+    {profile.emulator && (
+      <span
+        className="px-2 py-0.5 rounded border text-[10px] font-bold bg-violet-100 text-violet-700 border-violet-200"
+        title={`Firestore emulator at ${profile.emulator.host}:${profile.emulator.port}`}
+      >
+        EMULATOR {profile.emulator.host}:{profile.emulator.port}
+      </span>
+    )}
+  </span>
+);
+
+export default EnvironmentBadge;
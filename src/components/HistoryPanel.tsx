@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { QueryHistoryItem } from '../types';
+
+interface Props {
+  history: QueryHistoryItem[]; // Oldest first
+  onSelect: (query: string) => void;
+  onRun: (query: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (text: string) => Promise<void>;
+}
+
+type StatusFilter = 'all' | 'success' | 'error' | 'pinned';
+
+// Entries rendered at once; narrow the search to see older ones
+const MAX_SHOWN = 100;
+
+const formatTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString() ? date.toLocaleTimeString() : date.toLocaleDateString();
+};
+
+const details = (item: QueryHistoryItem) => [
+  formatTime(item.timestamp),
+  item.durationMs !== undefined && `${Math.round(item.durationMs)} ms`,
+  item.rowCount !== undefined && `${item.rowCount} row${item.rowCount === 1 ? '' : 's'}`,
+  item.collection,
+].filter(Boolean).join(' · ');
+
+const matches = (item: QueryHistoryItem, search: string, filter: StatusFilter) => {
+  if (filter === 'pinned' ? !item.pinned : filter !== 'all' && item.status !== filter) return false;
+  const text = `${item.query} ${item.collection ?? ''} ${item.error ?? ''} ${item.projectId ?? ''}`.toLowerCase();
+  return text.includes(search.toLowerCase());
+};
+
+// Searchable query history in the sidebar; pinned entries are listed first
+const HistoryPanel: React.FC<Props> = ({ history, onSelect, onRun, onTogglePin, onDelete, onExport, onImport }) => {
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [importError, setImportError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const newestFirst = history.slice().reverse();
+  const visible = [...newestFirst.filter(item => item.pinned), ...newestFirst.filter(item => !item.pinned)]
+    .filter(item => matches(item, search, filter));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError('');
+    try {
+      await onImport(await file.text());
+    } catch (e: any) {
+      setImportError(e.message);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3 flex justify-between items-center">
+        <span>History</span>
+        <span className="flex gap-2 normal-case font-normal text-[10px]">
+          <button onClick={() => fileRef.current?.click()} className="hover:text-amber-500" title="Import history from JSON">
+            Import
+          </button>
+          <button onClick={onExport} disabled={history.length === 0} className="hover:text-amber-500 disabled:opacity-50" title="Export history as JSON">
+            Export
+          </button>
+        </span>
+      </h3>
+      <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      {importError && <p className="text-[10px] text-red-400 mb-2">{importError}</p>}
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search..."
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-amber-500 outline-none"
+        />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as StatusFilter)}
+          className="bg-slate-800 text-[10px] border border-slate-700 rounded px-1 text-slate-300 outline-none focus:border-amber-500 cursor-pointer"
+        >
+          <option value="all">All</option>
+          <option value="success">Succeeded</option>
+          <option value="error">Failed</option>
+          <option value="pinned">Pinned</option>
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {visible.slice(0, MAX_SHOWN).map(item => (
+          <div
+            key={item.id}
+            className={`group rounded border transition-colors ${item.status === 'error'
+                ? 'bg-red-900/10 border-red-900/20 hover:bg-red-900/20'
+                : 'bg-slate-800/30 border-slate-800 hover:bg-slate-800'
+              }`}
+          >
+            <button
+              onClick={() => onSelect(item.query)}
+              className={`w-full text-left text-xs px-2 pt-2 truncate font-mono ${item.status === 'error' ? 'text-red-300' : 'text-slate-400'}`}
+              title={item.error ? `${item.query}\n\n${item.error}` : item.query}
+            >
+              {item.pinned && <span className="text-amber-500 mr-1">★</span>}
+              {item.query}
+            </button>
+            <div className="flex items-center gap-1 px-2 pb-1.5 text-[10px] text-slate-600">
+              <span className="truncate" title={item.projectId && `Project: ${item.projectId}`}>{details(item)}</span>
+              <span className="ml-auto flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={() => onRun(item.query)} className="hover:text-green-400" title="Run again">▶</button>
+                <button onClick={() => onTogglePin(item.id)} className="hover:text-amber-500" title={item.pinned ? 'Unpin' : 'Pin'}>
+                  {item.pinned ? '★' : '☆'}
+                </button>
+                <button onClick={() => onDelete(item.id)} className="hover:text-red-400" title="Delete">✕</button>
+              </span>
+            </div>
+          </div>
+        ))}
+        {visible.length > MAX_SHOWN && (
+          <p className="text-[10px] text-slate-600 italic px-2">{visible.length - MAX_SHOWN} older entries match; refine the search to see them.</p>
+        )}
+        {visible.length === 0 && (
+          <p className="text-xs text-slate-600 italic px-2">
+            {history.length === 0 ? 'Queries you run are listed here.' : 'No entries match.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
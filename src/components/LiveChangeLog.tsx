@@ -0,0 +1,38 @@
+import React from 'react';
+import { LiveChange, LiveChangeType } from '../types';
+
+interface Props {
+  changes: LiveChange[]; // Newest first
+  onClear: () => void;
+}
+
+const TYPE_STYLES: Record<LiveChangeType, string> = {
+  added: 'bg-green-100 text-green-700',
+  modified: 'bg-amber-100 text-amber-700',
+  removed: 'bg-red-100 text-red-700',
+};
+
+// Row changes reported by a live query's snapshots
+const LiveChangeLog: React.FC<Props> = ({ changes, onClear }) => (
+  <div className="border-t border-slate-200 bg-slate-50 max-h-40 flex flex-col">
+    <div className="flex items-center justify-between px-4 py-1.5 border-b border-slate-100">
+      <span className="text-xs font-semibold text-slate-500">CHANGE LOG ({changes.length})</span>
+      {changes.length > 0 && (
+        <button onClick={onClear} className="text-xs text-slate-400 hover:text-slate-600">Clear</button>
+      )}
+    </div>
+    <div className="overflow-y-auto px-4 py-1 font-mono text-xs">
+      {changes.length === 0 && <div className="text-slate-400 italic py-1">Waiting for changes...</div>}
+      {changes.map((change, i) => (
+        <div key={`${change.timestamp}-${change.path}-${i}`} className="flex items-center gap-2 py-0.5">
+          <span className="text-slate-400">{new Date(change.timestamp).toLocaleTimeString()}</span>
+          <span className={`px-1.5 rounded text-[10px] font-bold uppercase ${TYPE_STYLES[change.type]}`}>{change.type}</span>
+          <span className="text-slate-700" title={change.path}>{change.id}</span>
+          {change.fields && <span className="text-slate-500 truncate">{change.fields.join(', ')}</span>}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default LiveChangeLog;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ParameterType, QueryParameter } from '../types';
+import { parameterLabel } from '../services/parameters';
+
+interface Props {
+  parameters: QueryParameter[];
+  onChange: (parameters: QueryParameter[]) => void;
+}
+
+const TYPES: ParameterType[] = ['string', 'number', 'boolean', 'timestamp'];
+
+const PLACEHOLDERS: Record<ParameterType, string> = {
+  string: 'text',
+  number: '0',
+  boolean: '',
+  timestamp: '2024-01-01T00:00:00Z',
+};
+
+// Form for the :name / $1 placeholders of the current query
+const ParametersPanel: React.FC<Props> = ({ parameters, onChange }) => {
+  const update = (index: number, changes: Partial<QueryParameter>) => {
+    onChange(parameters.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+  };
+
+  const changeType = (index: number, type: ParameterType) => {
+    const value = parameters[index].value;
+    // Booleans are picked from a list; start from a valid choice
+    update(index, { type, value: type === 'boolean' ? (value === 'true' ? 'true' : 'false') : value });
+  };
+
+  return (
+    <div className="border-t border-slate-100 bg-slate-50 px-4 py-2 max-h-32 overflow-y-auto">
+      <div className="text-xs font-semibold text-slate-500 mb-1">PARAMETERS</div>
+      <div className="grid grid-cols-[auto_auto_1fr] gap-x-2 gap-y-1 items-center">
+        {parameters.map((param, i) => (
+          <React.Fragment key={param.name}>
+            <span className="text-xs font-mono text-slate-700">{parameterLabel(param.name)}</span>
+            <select
+              value={param.type}
+              onChange={(e) => changeType(i, e.target.value as ParameterType)}
+              className="text-xs border border-slate-200 rounded px-1 py-0.5 bg-white text-slate-600"
+            >
+              {TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+            {param.type === 'boolean' ? (
+              <select
+                value={param.value}
+                onChange={(e) => update(i, { value: e.target.value })}
+                className="text-xs font-mono border border-slate-200 rounded px-1 py-0.5 bg-white w-24"
+              >
+                <option value="true">true</option>
+                <option value="false">false</option>
+              </select>
+            ) : (
+              <input
+                value={param.value}
+                onChange={(e) => update(i, { value: e.target.value })}
+                placeholder={PLACEHOLDERS[param.type]}
+                className="text-xs font-mono border border-slate-200 rounded px-2 py-0.5 bg-white outline-none focus:border-blue-400"
+              />
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParametersPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ConnectionProfile } from '../types';
+import EnvironmentBadge from './EnvironmentBadge';
+
+interface Props {
+  profile: ConnectionProfile;
+  statements: string[]; // The write statements about to run
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asked before running writes against a profile flagged as production
+const ProductionConfirmModal: React.FC<Props> = ({ profile, statements, onConfirm, onCancel }) => (
+  <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+    <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-red-200">
+      <div className="bg-red-50 p-4 border-b border-red-100">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-bold text-red-800">Write to production?</h2>
+          <EnvironmentBadge profile={profile} />
+        </div>
+        <p className="text-sm text-red-700">
+          {statements.length === 1 ? 'This statement writes' : `These ${statements.length} statements write`} to project{' '}
+          <span className="font-mono">{profile.config.projectId}</span>.
+        </p>
+      </div>
+
+      <div className="p-6 max-h-64 overflow-y-auto space-y-2">
+        {statements.map((statement, i) => (
+          <pre key={i} className="text-xs font-mono bg-slate-900 text-green-400 rounded p-2 whitespace-pre-wrap break-words">{statement}</pre>
+        ))}
+      </div>
+
+      <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          className="px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium transition-colors shadow-sm"
+        >
+          Run on {profile.name}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ProductionConfirmModal;
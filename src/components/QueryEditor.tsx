@@ -0,0 +1,287 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { CompletionContext, CompletionItem, CompletionKind, getCompletions, matchBracket, scanSpans, signatureHint, SpanKind } from '../services/language';
+import { QueryDiagnostic } from '../types';
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  diagnostic?: QueryDiagnostic;
+  placeholder?: string;
+  collections?: string[];
+  fields?: Record<string, string[]>; // Known field paths by collection, for completion
+}
+
+// Shared between the textarea and the overlay so the two line up exactly
+const TEXT_LAYOUT = 'p-4 font-mono text-sm whitespace-pre-wrap break-words';
+
+// Colors only: weights and styles could change glyph widths and misalign the overlay
+const SPAN_CLASSES: Record<SpanKind, string> = {
+  keyword: 'text-blue-700',
+  function: 'text-purple-700',
+  identifier: 'text-slate-800',
+  string: 'text-green-700',
+  number: 'text-amber-700',
+  param: 'text-pink-600',
+  comment: 'text-slate-400',
+  punct: 'text-slate-500',
+};
+
+const KIND_BADGES: Record<CompletionKind, string> = {
+  keyword: 'K',
+  collection: 'C',
+  field: 'F',
+  function: 'ƒ',
+  operator: 'O',
+  snippet: 'S',
+};
+
+const DIAGNOSTIC_CLASS = 'bg-red-100/70 underline decoration-wavy decoration-red-500 underline-offset-4';
+const BRACKET_CLASS = 'bg-amber-200 rounded-sm';
+const UNMATCHED_BRACKET_CLASS = 'bg-red-200 rounded-sm';
+
+// Contexts where the list opens by itself after a space, e.g. FROM <collection>
+const OPEN_AFTER_SPACE: CompletionContext[] = ['collection', 'operator'];
+
+type Popup = { from: number; items: CompletionItem[]; selected: number; explicit: boolean };
+
+const QueryEditor: React.FC<Props> = ({ value, onChange, onKeyDown, diagnostic, placeholder, collections = [], fields = {} }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const caretRef = useRef<HTMLSpanElement>(null);
+  // Caret position to restore once an accepted completion has been rendered
+  const pendingCaret = useRef<number | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [popup, setPopup] = useState<Popup | null>(null);
+  const [anchor, setAnchor] = useState({ left: 0, top: 0 });
+  const [scrollTick, setScrollTick] = useState(0);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (pendingCaret.current !== null && textarea) {
+      textarea.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      setCursor(pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  // Where the floating panel goes: just below the caret
+  useLayoutEffect(() => {
+    const marker = caretRef.current;
+    const overlay = overlayRef.current;
+    if (!marker || !overlay) return;
+    const left = Math.max(0, Math.min(marker.offsetLeft - overlay.scrollLeft, overlay.clientWidth - 320));
+    const top = marker.offsetTop - overlay.scrollTop + marker.offsetHeight;
+    setAnchor(prev => (prev.left === left && prev.top === top ? prev : { left, top }));
+  }, [value, cursor, scrollTick]);
+
+  // Keep the highlight overlay scrolled with the textarea
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+      overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+    setScrollTick(t => t + 1);
+  };
+
+  const suggest = (text: string, caret: number, explicit: boolean, contexts?: CompletionContext[]) => {
+    const { from, context, items } = getCompletions(text, caret, { collections, fields });
+    if (contexts && !contexts.includes(context)) return setPopup(null);
+    setPopup(items.length > 0 || explicit ? { from, items, selected: 0, explicit } : null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    const caret = e.target.selectionStart;
+    onChange(text);
+    setCursor(caret);
+
+    // Only typing opens the list; deleting and pasting just refresh an open one
+    const typed = text.length === value.length + 1 ? text[caret - 1] : undefined;
+    if (typed && /[\w$.]/.test(typed)) suggest(text, caret, false);
+    else if (typed === ' ') suggest(text, caret, false, OPEN_AFTER_SPACE);
+    else if (popup && caret > popup.from) suggest(text, caret, popup.explicit);
+    else setPopup(null);
+  };
+
+  const accept = (item: CompletionItem) => {
+    if (!popup) return;
+    const end = textareaRef.current?.selectionStart ?? cursor;
+    const text = value.slice(0, popup.from) + item.insert + value.slice(end);
+    const caret = popup.from + (item.caret ?? item.insert.length);
+    pendingCaret.current = caret;
+    onChange(text);
+    // Chain into the next list, e.g. the collections after 'SELECT * FROM '
+    suggest(text, caret, false, OPEN_AFTER_SPACE);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const modified = e.metaKey || e.ctrlKey || e.altKey;
+    if (popup && !modified) {
+      const count = popup.items.length;
+      if (count > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPopup({ ...popup, selected: (popup.selected + step + count) % count });
+        return;
+      }
+      if (count > 0 && (e.key === 'Enter' || e.key === 'Tab')) {
+        e.preventDefault();
+        accept(popup.items[popup.selected]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setPopup(null);
+        return;
+      }
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      suggest(value, e.currentTarget.selectionStart, true);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setCursor(selectionEnd);
+    // Moving the caret out of the word closes the list
+    if (popup && (selectionStart !== selectionEnd || selectionEnd < popup.from)) setPopup(null);
+  };
+
+  const bracket = focused ? matchBracket(value, cursor) : undefined;
+  const hint = focused ? signatureHint(value, cursor) : undefined;
+  // Function hints follow the caret; statement syntax shows with the completion list
+  const showHint = hint && (hint.kind === 'function' || popup);
+
+  const renderOverlay = () => {
+    const classes = new Array<string>(value.length).fill('');
+    const paint = (start: number, end: number, className: string) => {
+      for (let i = start; i < end; i++) classes[i] = classes[i] ? `${classes[i]} ${className}` : className;
+    };
+
+    scanSpans(value).forEach(span => paint(span.start, span.end, SPAN_CLASSES[span.kind]));
+    if (bracket) {
+      const className = bracket.match === undefined ? UNMATCHED_BRACKET_CLASS : BRACKET_CLASS;
+      paint(bracket.at, bracket.at + 1, className);
+      if (bracket.match !== undefined) paint(bracket.match, bracket.match + 1, className);
+    }
+
+    const diagStart = diagnostic ? Math.min(diagnostic.start, value.length) : -1;
+    const diagEnd = diagnostic ? Math.max(diagStart, Math.min(diagnostic.end, value.length)) : -1;
+    if (diagEnd > diagStart) paint(diagStart, diagEnd, DIAGNOSTIC_CLASS);
+
+    const caret = Math.min(cursor, value.length);
+    const nodes: React.ReactNode[] = [];
+    let runStart = 0;
+    for (let i = 0; i <= value.length; i++) {
+      const boundary = i === value.length || i === caret || i === diagStart || classes[i] !== classes[runStart];
+      if (boundary && i > runStart) {
+        nodes.push(<span key={runStart} className={classes[runStart] || undefined}>{value.slice(runStart, i)}</span>);
+        runStart = i;
+      }
+      if (i === caret) {
+        // Measured to place the completion list and signature hint
+        nodes.push(<span key="caret" ref={caretRef} className="inline-block w-0 h-5 align-top" />);
+      }
+      if (i === diagStart && diagEnd === diagStart) {
+        // Zero-width span (e.g. unexpected end of query): draw a caret marker instead
+        nodes.push(
+          <span key="diagnostic" className="relative inline-block w-0">
+            <span className="absolute -left-px top-0 h-[1.25em] border-l-2 border-red-500" />
+          </span>
+        );
+      }
+    }
+
+    return (
+      <>
+        {nodes}
+        {'\n'}
+      </>
+    );
+  };
+
+  const renderHint = () => {
+    if (!hint) return null;
+    if (!hint.active) return <>{hint.text}</>;
+    const [start, end] = hint.active;
+    return (
+      <>
+        {hint.text.slice(0, start)}
+        <span className="font-bold text-slate-900">{hint.text.slice(start, end)}</span>
+        {hint.text.slice(end)}
+      </>
+    );
+  };
+
+  return (
+    <div className="w-full h-full relative">
+      <div
+        ref={overlayRef}
+        aria-hidden="true"
+        className={`absolute inset-0 overflow-hidden pointer-events-none text-slate-800 ${TEXT_LAYOUT}`}
+      >
+        {renderOverlay()}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onSelect={handleSelect}
+        onScroll={handleScroll}
+        onFocus={() => setFocused(true)}
+        onBlur={() => {
+          setFocused(false);
+          setPopup(null);
+        }}
+        className={`relative w-full h-full bg-transparent text-transparent caret-slate-800 placeholder:text-slate-400 outline-none resize-none ${TEXT_LAYOUT}`}
+        placeholder={placeholder}
+        spellCheck={false}
+      />
+      {focused && (showHint || (popup && popup.items.length > 0)) && (
+        <div
+          className="absolute z-20 w-80 bg-white border border-slate-200 rounded shadow-lg text-xs font-mono overflow-hidden"
+          style={{ left: anchor.left, top: anchor.top }}
+        >
+          {showHint && (
+            <div className="px-2 py-1 bg-slate-50 text-slate-500 border-b border-slate-100 whitespace-normal break-words">
+              {renderHint()}
+            </div>
+          )}
+          {popup && popup.items.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto py-1">
+              {popup.items.map((item, i) => (
+                <li
+                  key={`${item.kind}-${item.label}`}
+                  ref={i === popup.selected ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
+                  // Keep focus in the textarea
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    accept(item);
+                  }}
+                  className={`flex items-center gap-2 px-2 py-0.5 cursor-pointer ${i === popup.selected ? 'bg-blue-100' : 'hover:bg-slate-50'}`}
+                >
+                  <span className="w-4 text-center text-[10px] text-slate-400">{KIND_BADGES[item.kind]}</span>
+                  <span className="text-slate-800 truncate">{item.label}</span>
+                  {item.detail && <span className="ml-auto pl-2 text-slate-400 truncate">{item.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {diagnostic && (
+        <div className="absolute left-4 bottom-4 max-w-[60%] px-2 py-1 text-xs font-mono bg-red-50 border border-red-200 text-red-700 rounded shadow-sm truncate" title={diagnostic.message}>
+          {diagnostic.line}:{diagnostic.column} {diagnostic.expected ? `expected ${diagnostic.expected}` : diagnostic.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryEditor;
@@ -1,5 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { QueryResult } from '../types';
+import { CollectionSchema, FieldChange, FieldType, IndexDefinition, LiveChangeType, QueryDiagnostic, QueryResult } from '../types';
+import { PATH_COLUMN } from '../services/firebaseService';
+import { formatIndex } from '../services/indexes';
+import { evaluateCall } from '../services/literals';
+import { dominantType } from '../services/schema';
+import { formatTypedValue } from '../services/values';
+import WritePreview from './WritePreview';
 
 interface Props {
   result: QueryResult | null;
@@ -8,29 +14,99 @@ interface Props {
   onInsertRow?: (data: any) => void;
   onNextPage?: () => void;
   onPrevPage?: () => void;
+  onConfirmWrite?: () => void;
+  onCancelWrite?: () => void;
+  confirmEdits?: boolean; // Show a diff and ask before saving inline edits
+  onToggleConfirmEdits?: (enabled: boolean) => void;
+  onAddIndexes?: (indexes: IndexDefinition[]) => void; // Collect into firestore.indexes.json
+  onStopLive?: () => void; // Set while a live query is listening
+  schema?: CollectionSchema; // Inferred fields of the collection, to prefill inserts
   page?: number;
 }
 
+// How long live changes stay highlighted
+const HIGHLIGHT_MS = 3000;
+
+const CHANGE_STYLES: Record<LiveChangeType, string> = {
+  added: 'bg-green-50',
+  modified: 'bg-amber-50',
+  removed: 'bg-red-50 text-slate-400 line-through',
+};
+
 interface InsertField {
   key: string;
   value: string;
-  type: 'string' | 'number' | 'boolean' | 'json' | 'null';
+  type: 'string' | 'number' | 'boolean' | 'timestamp' | 'geopoint' | 'reference' | 'json' | 'null';
 }
 
-const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsertRow, onNextPage, onPrevPage, page = 1 }) => {
+const INSERT_TYPES: { type: InsertField['type']; label: string }[] = [
+  { type: 'string', label: 'Aa' },
+  { type: 'number', label: '#' },
+  { type: 'boolean', label: 'T/F' },
+  { type: 'timestamp', label: 'Time' },
+  { type: 'geopoint', label: 'Geo' },
+  { type: 'reference', label: 'Ref' },
+  { type: 'json', label: '{}' },
+  { type: 'null', label: '∅' },
+];
+
+// Insert field type for an inferred schema type; arrays and maps are entered as JSON
+const INSERT_TYPE_OF: Record<FieldType, InsertField['type']> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  timestamp: 'timestamp',
+  geopoint: 'geopoint',
+  reference: 'reference',
+  array: 'json',
+  map: 'json',
+  null: 'null',
+};
+
+const VALUE_PLACEHOLDERS: Partial<Record<InsertField['type'], string>> = {
+  timestamp: '2024-01-01T00:00:00Z',
+  geopoint: '12.97, 77.59',
+  reference: 'users/abc123',
+};
+
+// Renders "   ^~~~" under the offending span, clipped to the end of its line
+const caretMarker = (d: QueryDiagnostic) => {
+  const lineEnd = d.start - (d.column - 1) + d.lineText.length;
+  const width = Math.max(1, Math.min(d.end, lineEnd) - d.start);
+  return ' '.repeat(d.column - 1) + '^' + '~'.repeat(width - 1);
+};
+
+const ResultsTable: React.FC<Props> = ({
+  result, loading, onUpdateCell, onInsertRow, onNextPage, onPrevPage,
+  onConfirmWrite, onCancelWrite, confirmEdits, onToggleConfirmEdits, onAddIndexes, onStopLive, schema, page = 1
+}) => {
   const [editingLoc, setEditingLoc] = useState<{ id: string; col: string } | null>(null);
   const [editValue, setEditValue] = useState<string>('');
   const [editType, setEditType] = useState<'string' | 'number' | 'boolean' | 'json' | 'null'>('string');
   const [originalEditValue, setOriginalEditValue] = useState<string>('');
   const [originalEditType, setOriginalEditType] = useState<typeof editType>('string');
 
+  // Inline edit waiting for confirmation (when confirmEdits is on)
+  const [pendingEdit, setPendingEdit] = useState<{ col: string; change: FieldChange } | null>(null);
+
   // Insert Modal State
   const [showInsertModal, setShowInsertModal] = useState(false);
   const [insertFields, setInsertFields] = useState<InsertField[]>([]);
 
+  // Row highlights (by document path) for the latest live snapshot
+  const [highlights, setHighlights] = useState<Record<string, LiveChangeType>>({});
+
   const inputRef = useRef<HTMLTextAreaElement | HTMLInputElement>(null);
   const editContainerRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    const changes = result?.changes ?? [];
+    setHighlights(Object.fromEntries(changes.map(c => [c.path, c.type])));
+    if (changes.length === 0) return;
+    const timer = setTimeout(() => setHighlights({}), HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [result?.changes]);
+
   // Focus input when editing starts
   useEffect(() => {
     if (editingLoc && inputRef.current) {
@@ -53,8 +129,8 @@ const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsert
   }, [editingLoc, editValue, editType]); // Dependencies required for handleSave closure
 
   const handleStartEdit = (id: string, col: string, currentVal: any) => {
-    // Explicitly prevent editing ID column
-    if (col === 'id' || !onUpdateCell || result?.type !== 'read') return;
+    // Explicitly prevent editing ID column (including when aliased)
+    if (col === 'id' || result?.fieldPaths?.[col] === 'id' || !onUpdateCell || result?.type !== 'read' || result.readOnly) return;
 
     setEditingLoc({ id, col });
 
@@ -121,13 +197,32 @@ const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsert
     // Only update if something actually changed (value string or type changed)
     const didChange = editType !== originalEditType || editValue !== originalEditValue;
 
-    if (didChange) {
+    if (didChange && confirmEdits) {
+      const row = result?.rows.find(r => r.id === editingLoc.id);
+      setPendingEdit({
+        col: editingLoc.col,
+        change: {
+          id: editingLoc.id,
+          path: row?.[PATH_COLUMN] ?? editingLoc.id,
+          field: result?.fieldPaths?.[editingLoc.col] ?? editingLoc.col,
+          before: row?.[editingLoc.col],
+          after: finalVal
+        }
+      });
+    } else if (didChange) {
       onUpdateCell(editingLoc.id, editingLoc.col, finalVal);
     }
 
     setEditingLoc(null);
   };
 
+  const handleConfirmEdit = () => {
+    if (pendingEdit && onUpdateCell) {
+      onUpdateCell(pendingEdit.change.id, pendingEdit.col, pendingEdit.change.after);
+    }
+    setPendingEdit(null);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       setEditingLoc(null);
@@ -177,10 +272,18 @@ const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsert
   const handleOpenInsert = () => {
     if (!result) return;
 
-    // Pre-fill fields based on existing columns, excluding ID
-    const initialFields = result.columns
-      .filter(c => c !== 'id')
-      .map(c => ({ key: c, value: '', type: 'string' } as InsertField));
+    // Pre-fill the sampled schema's top-level fields with their usual type, then any
+    // other columns of the result (by their source field), excluding ID
+    const schemaFields: InsertField[] = (schema?.fields ?? [])
+      .filter(f => f.path !== 'id')
+      .map(f => ({ key: f.path, value: '', type: INSERT_TYPE_OF[dominantType(f)] }));
+    const initialFields = [
+      ...schemaFields,
+      ...result.columns
+        .map(c => result.fieldPaths?.[c] ?? c)
+        .filter(c => c !== 'id' && !schemaFields.some(f => f.key === c))
+        .map(c => ({ key: c, value: '', type: 'string' } as InsertField))
+    ];
 
     // If no columns (e.g. empty collection view), start with one empty field
     if (initialFields.length === 0) {
@@ -198,17 +301,29 @@ const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsert
 
     for (const field of insertFields) {
       if (!field.key.trim()) continue; // Skip empty keys
+      // Prefilled fields left blank are not written
+      if (field.type !== 'null' && !field.value.trim()) continue;
 
       try {
         let val: any = field.value;
         switch (field.type) {
           case 'number': val = Number(field.value); break;
           case 'boolean': val = field.value.toLowerCase() === 'true'; break;
+          case 'timestamp': val = evaluateCall('timestamp', [field.value.trim()], 'write'); break;
+          case 'geopoint': val = evaluateCall('geopoint', field.value.split(',').map(Number), 'write'); break;
+          case 'reference': val = evaluateCall('ref', [field.value.trim()], 'write'); break;
           case 'json': val = JSON.parse(field.value); break;
           case 'null': val = null; break;
           case 'string': default: val = String(field.value); break;
         }
-        data[field.key] = val;
+        // Dotted keys (e.g. a projected address.city) are nested maps, as in SQL field paths
+        const keys = field.key.trim().split('.');
+        let target = data;
+        for (const key of keys.slice(0, -1)) {
+          if (target[key]?.constructor !== Object) target[key] = {};
+          target = target[key];
+        }
+        target[keys[keys.length - 1]] = val;
       } catch (e) {
         alert(`Error parsing field '${field.key}': Invalid ${field.type} format.`);
         return;
@@ -270,6 +385,46 @@ const ResultsTable: React.FC<Props> = ({ result, loading, onUpdateCell, onInsert
             </div>
           </div>
 
+          {result.diagnostics?.map((d, i) => (
+            <div key={i} className="mt-4 bg-white border border-red-100 rounded p-4">
+              <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 font-mono font-bold">{d.code}</span>
+                <span className="text-slate-500">Line {d.line}, Column {d.column}</span>
+                {d.expected && (
+                  <span className="text-slate-600">
+                    Expected <span className="font-mono text-slate-800">{d.expected}</span>, found <span className="font-mono text-slate-800">{d.found}</span>
+                  </span>
+                )}
+              </div>
+              <div className="bg-slate-900 text-slate-300 p-3 rounded-lg font-mono text-xs overflow-x-auto border border-slate-700">
+                <pre>{`${d.line} | ${d.lineText}`}</pre>
+                <pre className="text-red-400">
+                  {`${' '.repeat(String(d.line).length)} | ${caretMarker(d)}`}
+                </pre>
+              </div>
+            </div>
+          ))}
+
+          {result.indexUrl && (
+            <div className="mt-6 bg-white border border-red-100 rounded p-4">
+              <h4 className="font-bold text-slate-800 mb-2">Missing composite index</h4>
+              {result.indexes?.map((index, i) => (
+                <div key={i} className="mb-3">
+                  <p className="text-sm font-mono text-slate-700 mb-2">{formatIndex(index)}</p>
+                  <div className="bg-slate-900 text-slate-300 p-3 rounded-lg font-mono text-xs overflow-x-auto border border-slate-700">
+                    <pre>{JSON.stringify(index, null, 2)}</pre>
+                  </div>
+                </div>
+              ))}
+              <p className="text-sm text-slate-600">
+                {result.indexes?.length ? 'Added to firestore.indexes.json (download it above the editor), or ' : ''}
+                <a href={result.indexUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                  {result.indexes?.length ? 'create it in the Firebase console' : 'Create the index in the Firebase console'}
+                </a>.
+              </p>
+            </div>
+          )}
+
           {isPermissionError && (
             <div className="mt-6 bg-white border border-red-100 rounded p-4">
               <h4 className="font-bold text-slate-800 mb-2">How to fix "Permission Denied"</h4>
@@ -294,6 +449,78 @@ service cloud.firestore {
     );
   }
 
+  if (result.type === 'skipped') {
+    return (
+      <div className="flex-1 flex flex-col">
+        <div className="px-4 py-2 border-b text-sm font-medium flex items-center gap-2 bg-slate-50 border-slate-200 text-slate-500">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+          {result.message}
+        </div>
+      </div>
+    );
+  }
+
+  if (result.type === 'preview') {
+    return (
+      <div className="flex-1 overflow-hidden flex flex-col">
+        <div className="px-4 py-2 border-b text-sm font-medium flex items-center gap-2 bg-amber-50 border-amber-200 text-amber-800">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+          {result.message}
+          {result.pendingWrite && (
+            <div className="ml-auto flex items-center gap-2">
+              <button onClick={onCancelWrite} disabled={loading} className="px-3 py-1 bg-white border border-slate-300 rounded hover:bg-slate-50 text-slate-600 text-xs font-medium transition-colors shadow-sm disabled:opacity-50">
+                Cancel
+              </button>
+              <button onClick={onConfirmWrite} disabled={loading} className="px-3 py-1 bg-red-600 border border-red-600 rounded hover:bg-red-700 text-white text-xs font-bold transition-colors shadow-sm disabled:opacity-50">
+                {loading ? 'Committing...' : `Confirm ${result.pendingWrite.write.kind === 'delete' ? 'Delete' : 'Update'} (${result.pendingWrite.docPaths.length})`}
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="flex-1 overflow-auto bg-white">
+          <WritePreview changes={result.rows as FieldChange[]} />
+        </div>
+      </div>
+    );
+  }
+
+  // A single row of numbers (server aggregates, ungrouped MIN/MAX) reads best as summary cards;
+  // grouped and DISTINCT results fall through to the regular read-only table.
+  const isSummary = result.type === 'aggregate' && result.rows.length === 1 &&
+    result.columns.every(c => typeof result.rows[0][c] === 'number' || result.rows[0][c] === null);
+
+  if (isSummary) {
+    const row = result.rows[0];
+
+    return (
+      <div className="flex-1 overflow-auto flex flex-col">
+        <div className="px-4 py-2 border-b text-sm font-medium flex items-center gap-2 bg-indigo-50 border-indigo-200 text-indigo-800">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+          {result.message}
+          <button onClick={handleExportCSV} className="ml-auto flex items-center gap-1 px-2 py-1 bg-white border border-slate-300 rounded hover:bg-slate-50 text-slate-600 text-xs font-medium transition-colors shadow-sm">
+            <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+            Export CSV
+          </button>
+        </div>
+        <div className="p-6 grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-4">
+          {result.columns.map((col) => {
+            const val = row[col];
+            return (
+              <div key={col} className="bg-white border border-indigo-100 rounded-xl shadow-sm p-4">
+                <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider truncate" title={col}>{col}</div>
+                <div className="mt-2 text-3xl font-bold font-mono text-slate-800 truncate">
+                  {typeof val === 'number'
+                    ? val.toLocaleString(undefined, { maximumFractionDigits: 4 })
+                    : <span className="text-slate-400 italic text-xl" title="No matching values">null</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
   const renderEditWidget = () => {
     const isMultiLine = editValue.length > 50 || editValue.includes('\n') || editType === 'json';
 
@@ -403,6 +630,9 @@ service cloud.firestore {
     else if (typeof val === 'object') {
       if (val && typeof val.seconds === 'number') {
         content = <span className="text-purple-600 pointer-events-none">{new Date(val.seconds * 1000).toLocaleString()}</span>
+      } else if (formatTypedValue(val)) {
+        // GeoPoints and document references
+        content = <span className="text-pink-700 font-mono text-xs pointer-events-none">{formatTypedValue(val)}</span>;
       } else {
         content = <span className="text-slate-600 font-mono text-xs cursor-help" title={JSON.stringify(val, null, 2)}>{JSON.stringify(val)}</span>;
       }
@@ -420,7 +650,7 @@ service cloud.firestore {
 
   return (
     <div className="flex-1 overflow-hidden flex flex-col relative">
-      <div className={`px-4 py-2 border-b text-sm font-medium flex items-center gap-2 ${result.type === 'write' ? 'bg-green-50 border-green-200 text-green-800' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
+      <div className={`px-4 py-2 border-b text-sm font-medium flex items-center gap-2 ${result.type === 'write' ? 'bg-green-50 border-green-200 text-green-800' : result.type === 'aggregate' ? 'bg-indigo-50 border-indigo-200 text-indigo-800' : result.type === 'explain' ? 'bg-slate-50 border-slate-200 text-slate-700' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
         {result.type === 'write' ? (
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" /></svg>
         ) : (
@@ -428,11 +658,49 @@ service cloud.firestore {
         )}
         {result.message}
 
+        {result.type === 'aggregate' && result.rows.length > 0 && (
+          <button onClick={handleExportCSV} className="ml-auto flex items-center gap-1 px-2 py-1 bg-white border border-slate-300 rounded hover:bg-slate-50 text-slate-600 text-xs font-medium transition-colors shadow-sm">
+            <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+            Export CSV
+          </button>
+        )}
+
+        {result.type === 'explain' && onAddIndexes && !!result.indexes?.length && (
+          <button onClick={() => onAddIndexes(result.indexes!)} className="ml-auto flex items-center gap-1 px-2 py-1 bg-white border border-slate-300 rounded hover:bg-slate-50 text-slate-600 text-xs font-medium transition-colors shadow-sm">
+            <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg>
+            Add {result.indexes.length === 1 ? 'index' : `${result.indexes.length} indexes`} to firestore.indexes.json
+          </button>
+        )}
+
         {result.type === 'read' && (
           <div className="ml-auto flex items-center gap-3">
-            <span className="text-xs text-slate-500 font-normal hidden sm:inline">Click cells to edit</span>
+            {result.live && onStopLive && (
+              <>
+                <span className="flex items-center gap-1 text-xs font-bold text-green-700">
+                  <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+                  LIVE
+                </span>
+                <button onClick={onStopLive} className="px-2 py-1 bg-white border border-slate-300 rounded hover:bg-slate-50 text-slate-600 text-xs font-medium transition-colors shadow-sm">
+                  Stop
+                </button>
+              </>
+            )}
 
-            {onInsertRow && result.collectionName && (
+            {!result.readOnly && <span className="text-xs text-slate-500 font-normal hidden sm:inline">Click cells to edit</span>}
+
+            {onToggleConfirmEdits && !result.readOnly && (
+              <label className="flex items-center gap-1 text-xs text-slate-500 font-normal cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={!!confirmEdits}
+                  onChange={(e) => onToggleConfirmEdits(e.target.checked)}
+                  className="rounded border-slate-300"
+                />
+                Confirm edits
+              </label>
+            )}
+
+            {onInsertRow && result.collectionName && !result.collectionGroup && !result.readOnly && (
               <button onClick={handleOpenInsert} className="flex items-center gap-1 px-2 py-1 bg-blue-600 border border-blue-600 rounded hover:bg-blue-700 text-white text-xs font-medium transition-colors shadow-sm">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg>
                 Add Row
@@ -462,16 +730,16 @@ service cloud.firestore {
           </thead>
           <tbody className="bg-white divide-y divide-slate-100 font-mono text-sm">
             {result.rows.map((row, idx) => (
-              <tr key={row.id || idx} className="hover:bg-slate-50 transition-colors group">
+              <tr key={row.id || idx} className={`hover:bg-slate-50 transition-colors group ${CHANGE_STYLES[highlights[row[PATH_COLUMN]]] ?? ''}`}>
                 {result.columns.map((col) => {
                   const isEditing = editingLoc?.id === row.id && editingLoc?.col === col;
-                  const isId = col === 'id';
+                  const isId = col === 'id' || result.fieldPaths?.[col] === 'id';
                   return (
                     <td
                       key={`${idx}-${col}`}
                       className={`p-3 border-r border-slate-100 last:border-r-0 whitespace-nowrap max-w-xs relative 
                         ${isId ? 'bg-slate-50 text-slate-500 cursor-default' : ''}
-                        ${!isId && result.type === 'read' ? 'cursor-pointer hover:bg-blue-50' : ''}
+                        ${!isId && result.type === 'read' && !result.readOnly ? 'cursor-pointer hover:bg-blue-50' : ''}
                       `}
                       onClick={() => !isEditing && handleStartEdit(row.id, col, row[col])}
                     >
@@ -481,6 +749,15 @@ service cloud.firestore {
                 })}
               </tr>
             ))}
+            {result.removedRows?.filter(row => highlights[row[PATH_COLUMN]] === 'removed').map((row, idx) => (
+              <tr key={`removed-${row[PATH_COLUMN] ?? idx}`} className={CHANGE_STYLES.removed}>
+                {result.columns.map(col => (
+                  <td key={col} className="p-3 border-r border-slate-100 last:border-r-0 whitespace-nowrap max-w-xs">
+                    {renderCell(row.id, col, row[col])}
+                  </td>
+                ))}
+              </tr>
+            ))}
             {result.rows.length === 0 && (
               <tr>
                 <td colSpan={result.columns.length} className="p-8 text-center text-slate-400 italic">
@@ -512,7 +789,7 @@ service cloud.firestore {
             {onNextPage && (
               <button
                 onClick={onNextPage}
-                disabled={loading || result.rows.length === 0}
+                disabled={loading || !result.lastDoc}
                 className="text-xs font-medium px-3 py-1 bg-white border border-slate-300 rounded shadow-sm hover:bg-slate-50 text-slate-700 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
               >
                 Next
@@ -532,6 +809,24 @@ service cloud.firestore {
         </div>
       )}
 
+      {/* Inline Edit Confirmation */}
+      {pendingEdit && (
+        <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg flex flex-col max-h-[90%] border border-slate-200">
+            <div className="p-4 border-b border-slate-200 bg-slate-50">
+              <h3 className="font-bold text-slate-800">Save change to '{pendingEdit.change.path}'?</h3>
+            </div>
+            <div className="overflow-y-auto flex-1">
+              <WritePreview changes={[pendingEdit.change]} />
+            </div>
+            <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+              <button onClick={() => setPendingEdit(null)} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-200 rounded">Cancel</button>
+              <button onClick={handleConfirmEdit} className="px-4 py-2 text-sm bg-blue-600 text-white font-medium rounded hover:bg-blue-700 shadow-sm">Save Change</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Insert Row Modal */}
       {showInsertModal && (
         <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
@@ -553,14 +848,15 @@ service cloud.firestore {
                       onChange={(e) => updateInsertField(idx, 'key', e.target.value)}
                       className="w-full p-2 text-xs font-mono border border-slate-300 rounded mb-1 focus:border-blue-500 outline-none"
                     />
-                    <div className="flex gap-1">
-                      {['string', 'number', 'boolean', 'json', 'null'].map(t => (
+                    <div className="flex flex-wrap gap-1">
+                      {INSERT_TYPES.map(({ type: t, label }) => (
                         <button
                           key={t}
                           onClick={() => updateInsertField(idx, 'type', t)}
+                          title={t}
                           className={`px-1.5 py-0.5 text-[10px] uppercase font-bold rounded border ${field.type === t ? 'bg-blue-100 text-blue-700 border-blue-200' : 'bg-slate-50 text-slate-400 border-slate-100'}`}
                         >
-                          {t === 'string' ? 'Aa' : t === 'boolean' ? 'T/F' : t === 'number' ? '#' : t === 'json' ? '{}' : '∅'}
+                          {label}
                         </button>
                       ))}
                     </div>
@@ -570,7 +866,7 @@ service cloud.firestore {
                       <div className="w-full p-2 text-xs text-slate-400 italic bg-slate-50 border border-slate-200 rounded">null</div>
                     ) : (
                       <textarea
-                        placeholder="Value"
+                        placeholder={VALUE_PLACEHOLDERS[field.type] ?? 'Value'}
                         value={field.value}
                         onChange={(e) => updateInsertField(idx, 'value', e.target.value)}
                         className="w-full p-2 text-xs font-mono border border-slate-300 rounded h-[50px] focus:border-blue-500 outline-none resize-none"
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { QueryParameter, SavedQuery } from '../types';
+import { findParameters } from '../services/parameters';
+import { findDuplicate, folderNames } from '../services/library';
+import ParametersPanel from './ParametersPanel';
+
+interface Props {
+  initial: SavedQuery; // A new entry comes prefilled from the editor
+  library: SavedQuery[];
+  onSave: (query: SavedQuery) => void;
+  onCancel: () => void;
+}
+
+const FIELD_CLASS = 'w-full border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-blue-400';
+
+const SaveQueryModal: React.FC<Props> = ({ initial, library, onSave, onCancel }) => {
+  const [name, setName] = useState(initial.name);
+  const [folder, setFolder] = useState(initial.folder ?? '');
+  const [description, setDescription] = useState(initial.description ?? '');
+  const [query, setQuery] = useState(initial.query);
+  const [parameters, setParameters] = useState<QueryParameter[]>(initial.parameters ?? []);
+  const [withDefaults, setWithDefaults] = useState(!!initial.parameters?.some(p => p.value !== ''));
+  const [error, setError] = useState('');
+  const isNew = !library.some(q => q.id === initial.id);
+
+  // One default per placeholder of the query text
+  useEffect(() => {
+    const names = findParameters(query);
+    if (!names) return;
+    setParameters(prev => names.map(n => prev.find(p => p.name === n) ?? { name: n, type: 'string', value: '' }));
+  }, [query]);
+
+  const handleSave = () => {
+    const entry: SavedQuery = {
+      ...initial,
+      name: name.trim(),
+      folder: folder.trim(),
+      description: description.trim(),
+      query: query.trim(),
+      parameters: withDefaults && parameters.length > 0 ? parameters : undefined,
+      updatedAt: Date.now(),
+    };
+    if (!entry.name) return setError('Give the query a name.');
+    if (!entry.query) return setError('The query is empty.');
+    if (findDuplicate(library, entry)) {
+      return setError(`A query named '${entry.name}' already exists in ${entry.folder ? `'${entry.folder}'` : 'the top level'}.`);
+    }
+    onSave(entry);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200">
+        <div className="bg-slate-100 p-4 border-b border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800">{isNew ? 'Save Query' : 'Edit Saved Query'}</h2>
+          <p className="text-sm text-slate-500">Saved queries are kept in this browser; export them to share with your team.</p>
+        </div>
+
+        <div className="p-6 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-slate-600 space-y-1">
+              <span>Name</span>
+              <input value={name} onChange={(e) => { setName(e.target.value); setError(''); }} placeholder="Unpaid apartments this month" className={FIELD_CLASS} autoFocus />
+            </label>
+            <label className="text-xs font-medium text-slate-600 space-y-1">
+              <span>Folder</span>
+              <input value={folder} onChange={(e) => { setFolder(e.target.value); setError(''); }} placeholder="(top level)" list="saved-query-folders" className={FIELD_CLASS} />
+              <datalist id="saved-query-folders">
+                {folderNames(library).map(f => <option key={f} value={f} />)}
+              </datalist>
+            </label>
+          </div>
+          <label className="block text-xs font-medium text-slate-600 space-y-1">
+            <span>Description</span>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What it is for, when to run it" className={FIELD_CLASS} />
+          </label>
+          <label className="block text-xs font-medium text-slate-600 space-y-1">
+            <span>Query</span>
+            <textarea
+              value={query}
+              onChange={(e) => { setQuery(e.target.value); setError(''); }}
+              className="w-full h-32 p-3 font-mono text-sm bg-slate-900 text-green-400 rounded-lg outline-none resize-none focus:ring-2 focus:ring-blue-500"
+              spellCheck={false}
+            />
+          </label>
+          {parameters.length > 0 && (
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer select-none">
+                <input type="checkbox" checked={withDefaults} onChange={(e) => setWithDefaults(e.target.checked)} className="rounded border-slate-300" />
+                Save parameter defaults
+              </label>
+              {withDefaults && (
+                <div className="rounded-lg overflow-hidden border border-slate-100">
+                  <ParametersPanel parameters={parameters} onChange={setParameters} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-700 text-xs rounded-lg border border-red-200">{error}</div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-200 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors shadow-sm"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveQueryModal;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { SavedQuery } from '../types';
+import { folderNames, sortSavedQueries } from '../services/library';
+
+interface Props {
+  queries: SavedQuery[];
+  onOpen: (query: SavedQuery) => void;
+  onRun: (query: SavedQuery) => void;
+  onSaveCurrent: () => void;
+  onEdit: (query: SavedQuery) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (text: string) => Promise<void>;
+}
+
+// The team's named queries, grouped by folder
+const SavedQueriesPanel: React.FC<Props> = ({ queries, onOpen, onRun, onSaveCurrent, onEdit, onDelete, onExport, onImport }) => {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [importError, setImportError] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const sorted = sortSavedQueries(queries);
+  const groups = [
+    { folder: '', items: sorted.filter(q => !q.folder) },
+    ...folderNames(queries).map(folder => ({ folder, items: sorted.filter(q => q.folder === folder) })),
+  ];
+
+  const toggleFolder = (folder: string) => {
+    setCollapsed(collapsed.includes(folder) ? collapsed.filter(f => f !== folder) : [...collapsed, folder]);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError('');
+    try {
+      await onImport(await file.text());
+    } catch (e: any) {
+      setImportError(e.message);
+    }
+  };
+
+  const renderItem = (item: SavedQuery) => (
+    <div key={item.id} className="group rounded hover:bg-slate-800 transition-colors">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onOpen(item)}
+          className="flex-1 min-w-0 text-left text-xs font-medium text-slate-300 hover:text-white px-2 py-1 truncate"
+          title={item.query}
+        >
+          {item.name}
+        </button>
+        <span className="flex gap-1.5 pr-2 text-[10px] text-slate-600 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => onRun(item)} className="hover:text-green-400" title="Run">▶</button>
+          <button onClick={() => onEdit(item)} className="hover:text-amber-500" title="Edit">✎</button>
+          <button
+            onClick={() => window.confirm(`Delete the saved query '${item.name}'?`) && onDelete(item.id)}
+            className="hover:text-red-400"
+            title="Delete"
+          >
+            ✕
+          </button>
+        </span>
+      </div>
+      {item.description && (
+        <p className="px-2 pb-1 text-[10px] text-slate-500 truncate" title={item.description}>{item.description}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3 flex justify-between items-center">
+        <span>Saved Queries</span>
+        <span className="flex gap-2 normal-case font-normal text-[10px]">
+          <button onClick={onSaveCurrent} className="text-amber-500 hover:text-amber-400" title="Save the editor's query">+ Save</button>
+          <button onClick={() => fileRef.current?.click()} className="hover:text-amber-500" title="Import saved queries from JSON">
+            Import
+          </button>
+          <button onClick={onExport} disabled={queries.length === 0} className="hover:text-amber-500 disabled:opacity-50" title="Export saved queries as JSON">
+            Export
+          </button>
+        </span>
+      </h3>
+      <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+      {importError && <p className="text-[10px] text-red-400 mb-2">{importError}</p>}
+
+      <div className="space-y-1">
+        {groups.map(({ folder, items }) => (folder ? (
+          <div key={folder}>
+            <button
+              onClick={() => toggleFolder(folder)}
+              className="w-full flex items-center gap-1 text-left text-xs text-slate-400 hover:text-slate-200 py-1"
+            >
+              <span className="w-4 text-[10px] text-slate-600">{collapsed.includes(folder) ? '▸' : '▾'}</span>
+              <span className="truncate">{folder}</span>
+              <span className="ml-auto text-[10px] text-slate-600">{items.length}</span>
+            </button>
+            {!collapsed.includes(folder) && <div className="ml-4 border-l border-slate-800 pl-1">{items.map(renderItem)}</div>}
+          </div>
+        ) : (
+          <React.Fragment key="">{items.map(renderItem)}</React.Fragment>
+        )))}
+        {queries.length === 0 && (
+          <p className="text-xs text-slate-600 italic px-2">
+            Save the editor's query to reuse it, or import a shared library.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedQueriesPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { CollectionSchema, FieldType, SchemaField } from '../types';
+
+interface Props {
+  schema?: CollectionSchema;
+  loading: boolean;
+  error?: string;
+  onRefresh: () => void;
+}
+
+const TYPE_COLORS: Record<FieldType, string> = {
+  string: 'text-green-400',
+  number: 'text-blue-400',
+  boolean: 'text-purple-400',
+  timestamp: 'text-amber-400',
+  geopoint: 'text-teal-400',
+  reference: 'text-pink-400',
+  array: 'text-orange-400',
+  map: 'text-sky-400',
+  null: 'text-slate-500',
+};
+
+const percent = (n: number, total: number) => `${Math.round((n / Math.max(total, 1)) * 100)}%`;
+
+const FieldNode: React.FC<{ field: SchemaField; total: number }> = ({ field, total }) => {
+  const [open, setOpen] = useState(false);
+  const types = (Object.keys(field.types) as FieldType[]).sort((a, b) => field.types[b]! - field.types[a]!);
+  const summary = `${field.path}: present in ${field.count} of ${total} (${percent(field.count, total)}); ` +
+    types.map(t => `${t} ${field.types[t]}`).join(', ');
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 text-[11px] py-0.5" title={summary}>
+        {field.children ? (
+          <button onClick={() => setOpen(!open)} className="w-3 text-slate-500 hover:text-slate-300">{open ? '▾' : '▸'}</button>
+        ) : (
+          <span className="w-3" />
+        )}
+        <span className="font-mono text-slate-300 truncate">{field.name}</span>
+        {field.nullable && <span className="text-amber-500" title="Missing or null in some documents">?</span>}
+        <span className="ml-auto flex gap-1 shrink-0">
+          {types.map(t => (
+            <span key={t} className={TYPE_COLORS[t]}>
+              {t}{types.length > 1 ? ` ${percent(field.types[t]!, field.count)}` : ''}
+            </span>
+          ))}
+        </span>
+      </div>
+      {open && field.children && (
+        <div className="ml-3 border-l border-slate-800 pl-1">
+          {field.children.map(child => <FieldNode key={child.path} field={child} total={field.types.map ?? 0} />)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Inferred fields of one collection, under its entry in the sidebar
+const SchemaTree: React.FC<Props> = ({ schema, loading, error, onRefresh }) => (
+  <div className="ml-4 border-l border-slate-800 pl-2 pb-1">
+    <div className="flex items-center justify-between text-[10px] text-slate-500 py-0.5">
+      <span>
+        {loading ? 'Sampling...' : schema ? `${schema.sampled} docs sampled, ${new Date(schema.inferredAt).toLocaleDateString()}` : 'Not sampled yet'}
+      </span>
+      <button onClick={onRefresh} disabled={loading} className="hover:text-amber-500 disabled:opacity-50" title="Sample again">
+        Refresh
+      </button>
+    </div>
+    {error && <p className="text-[10px] text-red-400 py-0.5">{error}</p>}
+    {schema?.fields.map(field => <FieldNode key={field.path} field={field} total={schema.sampled} />)}
+    {schema && schema.fields.length === 0 && <p className="text-[10px] text-slate-600 italic">No fields found</p>}
+  </div>
+);
+
+export default SchemaTree;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ScriptResult } from '../types';
+
+interface Props {
+  results: ScriptResult[];
+  active: number;
+  onSelect: (index: number) => void;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  error: 'border-red-300 bg-red-50 text-red-700',
+  skipped: 'border-slate-200 bg-slate-50 text-slate-400',
+  preview: 'border-amber-300 bg-amber-50 text-amber-800',
+  write: 'border-green-300 bg-green-50 text-green-800',
+};
+
+// One tab per statement of a multi-statement script
+const ScriptResults: React.FC<Props> = ({ results, active, onSelect }) => {
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-200 bg-slate-50 overflow-x-auto">
+      <span className="text-xs font-semibold text-slate-500 shrink-0">RESULTS</span>
+      {results.map((r, i) => (
+        <button
+          key={i}
+          onClick={() => onSelect(i)}
+          title={r.statement}
+          className={`shrink-0 max-w-[16rem] flex items-center gap-1.5 px-2 py-1 rounded border text-xs font-mono transition-colors
+            ${STATUS_STYLES[r.result.type] ?? 'border-blue-200 bg-white text-slate-700'}
+            ${i === active ? 'ring-2 ring-blue-400' : 'hover:brightness-95'}`}
+        >
+          <span className="font-sans font-bold">{i + 1}</span>
+          <span className="truncate">{r.statement}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ScriptResults;
@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { QueryHistoryItem } from '../types';
+import { CollectionSchema, ConnectionProfile, QueryHistoryItem, SavedQuery } from '../types';
+import { ENVIRONMENT_LABELS } from './EnvironmentBadge';
+import SchemaTree from './SchemaTree';
+import HistoryPanel from './HistoryPanel';
+import SavedQueriesPanel from './SavedQueriesPanel';
 
 interface Props {
   history: QueryHistoryItem[];
@@ -7,23 +11,68 @@ interface Props {
   onAddCollection: (name: string) => void;
   onRemoveCollection: (name: string) => void;
   onSelectQuery: (q: string) => void;
+  onRunQuery: (q: string) => void;
+  onTogglePinHistory: (id: string) => void;
+  onDeleteHistory: (id: string) => void;
+  onExportHistory: () => void;
+  onImportHistory: (text: string) => Promise<void>;
+  savedQueries: SavedQuery[];
+  onOpenSavedQuery: (query: SavedQuery) => void;
+  onRunSavedQuery: (query: SavedQuery) => void;
+  onSaveCurrentQuery: () => void;
+  onEditSavedQuery: (query: SavedQuery) => void;
+  onDeleteSavedQuery: (id: string) => void;
+  onExportSavedQueries: () => void;
+  onImportSavedQueries: (text: string) => Promise<void>;
   onCollectionClick?: (name: string) => void;
+  schemas: Record<string, CollectionSchema>;
+  onRefreshSchema: (name: string) => Promise<void>;
   onLogout: () => void;
   onConfig: () => void;
+  profiles: ConnectionProfile[];
+  activeProfileId: string | null;
+  onSwitchProfile: (id: string) => void;
+  onNewProfile: () => void;
 }
 
+// Option value of the profile switcher that opens the new-profile dialog
+const NEW_PROFILE = '__new__';
+
 const Sidebar: React.FC<Props> = ({
   history,
   collections,
   onAddCollection,
   onRemoveCollection,
   onSelectQuery,
+  onRunQuery,
+  onTogglePinHistory,
+  onDeleteHistory,
+  onExportHistory,
+  onImportHistory,
+  savedQueries,
+  onOpenSavedQuery,
+  onRunSavedQuery,
+  onSaveCurrentQuery,
+  onEditSavedQuery,
+  onDeleteSavedQuery,
+  onExportSavedQueries,
+  onImportSavedQueries,
   onCollectionClick,
+  schemas,
+  onRefreshSchema,
   onLogout,
-  onConfig
+  onConfig,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onNewProfile
 }) => {
   const [newColName, setNewColName] = useState('');
   const [snippetCol, setSnippetCol] = useState<string>('');
+  // Collections whose schema tree is open, being sampled, or failed to sample
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [sampling, setSampling] = useState<string[]>([]);
+  const [schemaErrors, setSchemaErrors] = useState<Record<string, string>>({});
 
   // Update the snippet collection default when collections change
   useEffect(() => {
@@ -45,6 +94,26 @@ const Sidebar: React.FC<Props> = ({
     }
   };
 
+  const refreshSchema = async (col: string) => {
+    setSampling(prev => [...prev, col]);
+    setSchemaErrors(prev => ({ ...prev, [col]: '' }));
+    try {
+      await onRefreshSchema(col);
+    } catch (e: any) {
+      setSchemaErrors(prev => ({ ...prev, [col]: e.message }));
+    }
+    setSampling(prev => prev.filter(c => c !== col));
+  };
+
+  const toggleSchema = (col: string) => {
+    if (expanded.includes(col)) {
+      setExpanded(expanded.filter(c => c !== col));
+      return;
+    }
+    setExpanded([...expanded, col]);
+    if (!schemas[col]) refreshSchema(col);
+  };
+
   // Fallback if somehow empty
   const displayCol = snippetCol || 'users';
 
@@ -58,6 +127,20 @@ const Sidebar: React.FC<Props> = ({
           <h1 className="text-lg font-bold text-white tracking-tight">FireSQL</h1>
         </div>
         <p className="text-xs text-slate-500">Firestore Editor</p>
+        <select
+          value={activeProfileId ?? ''}
+          onChange={(e) => (e.target.value === NEW_PROFILE ? onNewProfile() : onSwitchProfile(e.target.value))}
+          className="mt-3 w-full bg-slate-800 text-xs border border-slate-700 rounded px-2 py-1 text-slate-300 outline-none focus:border-amber-500 cursor-pointer"
+          title="Connection profile"
+        >
+          {!activeProfileId && <option value="">No connection</option>}
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>
+              [{p.emulator ? 'EMULATOR' : ENVIRONMENT_LABELS[p.environment]}] {p.name}{p.production ? ' 🔒' : ''}
+            </option>
+          ))}
+          <option value={NEW_PROFILE}>+ New connection...</option>
+        </select>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 space-y-6">
@@ -87,21 +170,38 @@ const Sidebar: React.FC<Props> = ({
 
           <div className="space-y-1">
             {collections.map((col) => (
-              <div key={col} className="group flex items-center gap-1">
-                <button
-                  onClick={() => onCollectionClick ? onCollectionClick(col) : onSelectQuery(`SELECT * FROM ${col} LIMIT 5`)}
-                  className="flex-1 text-left text-xs font-medium bg-transparent hover:bg-slate-800 text-slate-300 hover:text-white px-2 py-1.5 rounded transition-colors flex items-center gap-2"
-                >
-                  <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
-                  {col}
-                </button>
-                <button
-                  onClick={() => onRemoveCollection(col)}
-                  className="opacity-0 group-hover:opacity-100 p-1 text-slate-600 hover:text-red-400 transition-all"
-                  title="Remove from list"
-                >
-                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
-                </button>
+              <div key={col}>
+                <div className="group flex items-center gap-1">
+                  <button
+                    onClick={() => toggleSchema(col)}
+                    className="p-1 text-slate-600 hover:text-slate-300 text-[10px] w-4"
+                    title={expanded.includes(col) ? 'Hide fields' : 'Show fields'}
+                  >
+                    {expanded.includes(col) ? '▾' : '▸'}
+                  </button>
+                  <button
+                    onClick={() => onCollectionClick ? onCollectionClick(col) : onSelectQuery(`SELECT * FROM ${col} LIMIT 5`)}
+                    className="flex-1 text-left text-xs font-medium bg-transparent hover:bg-slate-800 text-slate-300 hover:text-white px-2 py-1.5 rounded transition-colors flex items-center gap-2"
+                  >
+                    <svg className="w-3 h-3 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
+                    {col}
+                  </button>
+                  <button
+                    onClick={() => onRemoveCollection(col)}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-slate-600 hover:text-red-400 transition-all"
+                    title="Remove from list"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+                {expanded.includes(col) && (
+                  <SchemaTree
+                    schema={schemas[col]}
+                    loading={sampling.includes(col)}
+                    error={schemaErrors[col]}
+                    onRefresh={() => refreshSchema(col)}
+                  />
+                )}
               </div>
             ))}
             {collections.length === 0 && (
@@ -112,6 +212,18 @@ const Sidebar: React.FC<Props> = ({
           </div>
         </div>
 
+        {/* Saved Queries */}
+        <SavedQueriesPanel
+          queries={savedQueries}
+          onOpen={onOpenSavedQuery}
+          onRun={onRunSavedQuery}
+          onSaveCurrent={onSaveCurrentQuery}
+          onEdit={onEditSavedQuery}
+          onDelete={onDeleteSavedQuery}
+          onExport={onExportSavedQueries}
+          onImport={onImportSavedQueries}
+        />
+
         {/* Syntax Help */}
         <div>
           <div className="flex items-center justify-between mb-3">
@@ -150,27 +262,15 @@ const Sidebar: React.FC<Props> = ({
         </div>
 
         {/* History */}
-        {history.length > 0 && (
-          <div>
-            <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-3">
-              History
-            </h3>
-            <div className="space-y-2">
-              {history.slice().reverse().map((item, i) => (
-                <button
-                  key={i}
-                  onClick={() => onSelectQuery(item.query)}
-                  className={`w-full text-left text-xs p-2 rounded border transition-colors truncate font-mono ${item.status === 'error'
-                      ? 'bg-red-900/10 border-red-900/20 text-red-300 hover:bg-red-900/20'
-                      : 'bg-slate-800/30 border-slate-800 text-slate-400 hover:bg-slate-800'
-                    }`}
-                >
-                  {item.query}
-                </button>
-              ))}
-            </div>
-          </div>
-        )}
+        <HistoryPanel
+          history={history}
+          onSelect={onSelectQuery}
+          onRun={onRunQuery}
+          onTogglePin={onTogglePinHistory}
+          onDelete={onDeleteHistory}
+          onExport={onExportHistory}
+          onImport={onImportHistory}
+        />
       </div>
 
       <div className="p-4 border-t border-slate-800 bg-slate-900 space-y-2">
@@ -0,0 +1,61 @@
+import React from 'react';
+import { FieldChange } from '../types';
+import { formatTypedValue } from '../services/values';
+
+interface Props {
+  changes: FieldChange[];
+}
+
+const formatValue = (val: any) => {
+  if (val === undefined) return null;
+  if (val === null) return 'null';
+  if (typeof val === 'object') return formatTypedValue(val) ?? JSON.stringify(val);
+  if (typeof val === 'string') return `"${val}"`;
+  return String(val);
+};
+
+// Before/after diff of a pending write, one block per document
+const WritePreview: React.FC<Props> = ({ changes }) => {
+  const byDoc = new Map<string, FieldChange[]>();
+  for (const change of changes) {
+    const group = byDoc.get(change.path);
+    if (group) group.push(change);
+    else byDoc.set(change.path, [change]);
+  }
+
+  return (
+    <div className="divide-y divide-slate-200">
+      {Array.from(byDoc.entries()).map(([path, docChanges]) => (
+        <div key={path} className="p-3">
+          <div className="text-xs font-mono font-semibold text-slate-600 mb-2" title={path}>{docChanges[0].id}</div>
+          <table className="w-full text-left font-mono text-xs">
+            <tbody>
+              {docChanges.map(change => {
+                const before = formatValue(change.before);
+                const after = formatValue(change.after);
+                const unchanged = before === after;
+                return (
+                  <tr key={change.field} className={unchanged ? 'text-slate-400' : ''}>
+                    <td className="py-1 pr-4 w-1/4 text-slate-500 whitespace-nowrap">{change.field}</td>
+                    <td className="py-1 pr-4 w-[37%] truncate max-w-xs">
+                      {before === null
+                        ? <span className="italic text-slate-400">(missing)</span>
+                        : <span className={unchanged ? '' : 'bg-red-50 text-red-700 line-through px-1 rounded'}>{before}</span>}
+                    </td>
+                    <td className="py-1 truncate max-w-xs">
+                      {after === null
+                        ? <span className="italic text-red-500">(removed)</span>
+                        : <span className={unchanged ? '' : 'bg-green-50 text-green-700 px-1 rounded'}>{after}</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WritePreview;
@@ -0,0 +1,217 @@
+/**
+ * Abstract syntax tree for the FireSQL dialect.
+ *
+ * The parser produces these nodes and the query engine walks them to call
+ * into firebaseService. Nodes are plain objects discriminated by `kind`.
+ */
+
+// Operator names match Firestore's WhereFilterOp
+export type ComparisonOp =
+  | '==' | '!=' | '<' | '<=' | '>' | '>='
+  | 'in' | 'not-in' | 'array-contains' | 'array-contains-any';
+
+// --- Values ---
+
+export interface LiteralNode {
+  kind: 'literal';
+  value: string | number | boolean | null;
+}
+
+export interface ObjectNode {
+  kind: 'object';
+  entries: { key: string; value: ValueNode }[];
+}
+
+export interface ArrayNode {
+  kind: 'array';
+  items: ValueNode[];
+}
+
+// Typed literals (TIMESTAMP, GEOPOINT, REF) and write sentinels (NOW, INCREMENT, ...)
+export type ValueFunction =
+  | 'timestamp' | 'geopoint' | 'ref' | 'now'
+  | 'increment' | 'delete_field' | 'array_union' | 'array_remove';
+
+export interface CallNode {
+  kind: 'call';
+  fn: ValueFunction;
+  args: ValueNode[];
+}
+
+// `:name` or `$1`; bound to a typed value before the statement runs (see parameters.ts)
+export interface ParameterNode {
+  kind: 'parameter';
+  name: string; // 'name' for :name, '1' for $1
+}
+
+export type ValueNode = LiteralNode | ObjectNode | ArrayNode | CallNode | ParameterNode;
+
+// --- Expressions (SET assignments, client-side WHERE predicates) ---
+
+export type ScalarFunction =
+  | 'lower' | 'upper' | 'trim' | 'length' | 'concat' | 'coalesce' | 'abs' | 'round'
+  | 'contains' | 'year' | 'month' | 'day' | 'date';
+
+export interface FieldRefNode {
+  kind: 'fieldRef';
+  path: string; // Current value of this field in the document being updated or filtered
+}
+
+export interface BinaryNode {
+  kind: 'binary';
+  op: '+' | '-' | '*' | '/';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface NegateNode {
+  kind: 'negate';
+  operand: ExpressionNode;
+}
+
+export interface ScalarCallNode {
+  kind: 'scalar';
+  fn: ScalarFunction;
+  args: ExpressionNode[];
+}
+
+export type ExpressionNode = ValueNode | FieldRefNode | BinaryNode | NegateNode | ScalarCallNode;
+
+export interface Assignment {
+  path: string; // Dotted paths update nested fields, as in updateDoc()
+  value: ExpressionNode;
+}
+
+// --- Conditions ---
+
+export interface ComparisonNode {
+  kind: 'comparison';
+  field: string;
+  op: ComparisonOp;
+  value: ValueNode; // An ArrayNode for in, not-in and array-contains-any
+  aggregate?: AggregateFunction; // HAVING only: compares fn(field); field is '*' for COUNT(*)
+}
+
+export interface LogicalNode {
+  kind: 'and' | 'or';
+  conditions: ConditionNode[];
+}
+
+export type MatchOp = 'like' | 'ilike' | 'regexp';
+
+// A predicate Firestore cannot run (LIKE, REGEXP, functions of fields). It is
+// evaluated in the client over the documents the rest of the WHERE returns.
+export interface ClientPredicateNode {
+  kind: 'clientPredicate';
+  left: ExpressionNode;
+  op: ComparisonOp | MatchOp;
+  value: ValueNode; // A string pattern for like, ilike and regexp
+  negated?: boolean; // NOT LIKE / NOT ILIKE / NOT REGEXP
+}
+
+export type ConditionNode = ComparisonNode | ClientPredicateNode | LogicalNode;
+
+// --- Projection ---
+
+export interface FieldProjection {
+  kind: 'field';
+  path: string;   // Dotted path into the document, or 'id' for the document ID
+  alias?: string;
+}
+
+// count/sum/avg can run on the Firestore server; min/max and COUNT(field)
+// are only evaluated client-side.
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface AggregateProjection {
+  kind: 'aggregate';
+  fn: AggregateFunction;
+  field?: string; // Undefined for COUNT(*)
+  alias?: string;
+}
+
+export type ProjectionItem = FieldProjection | AggregateProjection;
+
+// --- Ordering ---
+
+export interface OrderByItem {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+// --- Joins ---
+
+export interface JoinClause {
+  type: 'inner' | 'left';
+  collection: string;
+  alias: string;      // Defaults to the last segment of the collection path
+  localField: string; // Field of an earlier table holding the joined document's ID or reference (ON x.field = alias.id)
+}
+
+// --- Statements ---
+
+export interface SelectStatement {
+  kind: 'select';
+  collection: string;        // Collection path, collection group ID, or a document path
+  collectionGroup?: boolean; // FROM GROUP name
+  alias?: string;            // FROM expenses e
+  joins?: JoinClause[];
+  fields?: ProjectionItem[]; // Undefined for SELECT *
+  distinct?: boolean;
+  where?: ConditionNode;
+  groupBy?: string[];
+  having?: ConditionNode;
+  orderBy?: OrderByItem[];
+  limit?: number | 'all';
+  offset?: number;
+  scanLimit?: number; // Cap on documents read for client-side grouping or filtering
+  explain?: boolean;  // EXPLAIN SELECT: describe the plan, read nothing
+  live?: boolean;     // LIVE SELECT: subscribe with onSnapshot instead of reading once
+}
+
+export interface InsertRow {
+  id?: string; // Explicit document ID; auto-generated when omitted
+  data: ObjectNode;
+}
+
+export interface InsertStatement {
+  kind: 'insert';
+  collection: string;
+  rows: InsertRow[];
+  merge?: boolean; // UPSERT / ON CONFLICT MERGE: setDoc with { merge: true }
+}
+
+export interface UpdateStatement {
+  kind: 'update';
+  collection: string;
+  data?: ObjectNode;          // SET JSON {...}
+  assignments?: Assignment[]; // SET a = expr, ... (exactly one of data/assignments is set)
+  where: ConditionNode;
+  preview?: boolean; // PREVIEW / EXPLAIN WRITE: show the diff, commit nothing
+}
+
+export interface DeleteStatement {
+  kind: 'delete';
+  collection: string;
+  where: ConditionNode;
+  preview?: boolean;
+}
+
+export type Statement = SelectStatement | InsertStatement | UpdateStatement | DeleteStatement;
+
+// --- Scripts ---
+
+export interface ScriptStatement {
+  kind: 'statement';
+  statement: Statement;
+  text: string; // Source text of this statement, used to label its result
+}
+
+// BEGIN ... COMMIT runs atomically; ROLLBACK discards every write in the block
+export interface TransactionBlock {
+  kind: 'transaction';
+  statements: ScriptStatement[];
+  rollback: boolean;
+}
+
+export type ScriptItem = ScriptStatement | TransactionBlock;
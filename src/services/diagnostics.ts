@@ -0,0 +1,47 @@
+import { DiagnosticCode, QueryDiagnostic } from '../types';
+
+/**
+ * Error thrown by the lexer and parser. Carries a structured diagnostic so the
+ * editor can point at the offending span instead of showing a flat message.
+ */
+export class ParseError extends Error {
+  diagnostic: QueryDiagnostic;
+
+  constructor(diagnostic: QueryDiagnostic) {
+    super(diagnostic.message);
+    this.name = 'ParseError';
+    this.diagnostic = diagnostic;
+  }
+}
+
+export const locate = (source: string, offset: number) => {
+  const before = source.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  const lineEnd = source.indexOf('\n', offset);
+  return {
+    line: before.split('\n').length,
+    column: offset - lineStart + 1,
+    lineText: source.slice(lineStart, lineEnd === -1 ? source.length : lineEnd),
+  };
+};
+
+export const syntaxError = (
+  source: string,
+  code: DiagnosticCode,
+  detail: string,
+  start: number,
+  end: number,
+  hint?: { expected: string; found: string }
+): ParseError => {
+  const { line, column, lineText } = locate(source, start);
+  return new ParseError({
+    code,
+    message: `Syntax error at line ${line}, column ${column}: ${detail}`,
+    line,
+    column,
+    start,
+    end,
+    lineText,
+    ...hint,
+  });
+};
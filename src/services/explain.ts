@@ -0,0 +1,221 @@
+import { ConditionNode, ExpressionNode, OrderByItem, SelectStatement } from './ast';
+import { QueryFilter } from './firebaseService';
+import { compileFilter, conjunctions, evaluateValue } from './filters';
+import { DEFAULT_SCAN_LIMIT, needsClientGrouping } from './grouping';
+import { formatIndex, requiredIndexes } from './indexes';
+import { planJoin } from './joins';
+import { splitCondition } from './residual';
+import { formatTypedValue } from './values';
+import { QueryResult } from '../types';
+
+/**
+ * EXPLAIN SELECT: describes what a query compiles to without reading any
+ * documents — the Firestore constraints, what runs in the browser, the
+ * ordering rules Firestore applies and the composite indexes it needs.
+ */
+
+type Step = { step: string; detail: string };
+
+const RANGE_OPS = ['<', '<=', '>', '>=', '!=', 'not-in'];
+
+const SQL_NAMES: Record<string, string> = {
+  '==': '=',
+  'in': 'IN',
+  'not-in': 'NOT IN',
+  'array-contains': 'ARRAY_CONTAINS',
+  'array-contains-any': 'ARRAY_CONTAINS_ANY',
+  like: 'LIKE',
+  ilike: 'ILIKE',
+  regexp: 'REGEXP',
+};
+
+const renderValue = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(renderValue).join(', ')}]`;
+  return formatTypedValue(value) ?? JSON.stringify(value);
+};
+
+const renderFieldRef = (field: string) => (field === 'id' ? 'documentId()' : `'${field}'`);
+
+// The filter as Firestore Web SDK calls
+const renderFilter = (filter: QueryFilter): string => {
+  if (filter.kind === 'where') {
+    return `where(${renderFieldRef(filter.field)}, '${filter.op}', ${renderValue(filter.value)})`;
+  }
+  return `${filter.kind}(${filter.filters.map(renderFilter).join(', ')})`;
+};
+
+const renderExpression = (expr: ExpressionNode): string => {
+  switch (expr.kind) {
+    case 'fieldRef': return expr.path;
+    case 'binary': return `(${renderExpression(expr.left)} ${expr.op} ${renderExpression(expr.right)})`;
+    case 'negate': return `-${renderExpression(expr.operand)}`;
+    case 'scalar': return `${expr.fn.toUpperCase()}(${expr.args.map(renderExpression).join(', ')})`;
+    default: return renderValue(evaluateValue(expr));
+  }
+};
+
+// The client-side part of a WHERE, in FireSQL syntax
+const renderCondition = (condition: ConditionNode): string => {
+  switch (condition.kind) {
+    case 'comparison':
+      return `${condition.field} ${SQL_NAMES[condition.op] ?? condition.op} ${renderValue(evaluateValue(condition.value))}`;
+    case 'clientPredicate': {
+      const op = `${condition.negated ? 'NOT ' : ''}${SQL_NAMES[condition.op] ?? condition.op}`;
+      return `${renderExpression(condition.left)} ${op} ${renderValue(evaluateValue(condition.value))}`;
+    }
+    default: {
+      const parts = condition.conditions.map(c => (c.kind === 'comparison' || c.kind === 'clientPredicate' ? renderCondition(c) : `(${renderCondition(c)})`));
+      return parts.join(condition.kind === 'and' ? ' AND ' : ' OR ');
+    }
+  }
+};
+
+const sourceStep = (stmt: SelectStatement): Step => ({
+  step: 'source',
+  detail: stmt.collectionGroup ? `collectionGroup(db, '${stmt.collection}')` : `collection(db, '${stmt.collection}')`,
+});
+
+// How Firestore's ordering and inequality rules shape the results
+const orderingNotes = (filter: QueryFilter | undefined, orderBy: OrderByItem[]): Step[] => {
+  const notes: Step[] = orderBy.map(o => ({
+    step: 'requirement',
+    detail: `ORDER BY ${o.field}: documents without '${o.field}' are not returned.`,
+  }));
+
+  const leaves = filter ? conjunctions(filter).flat() : [];
+  // Every document has an ID, and results are already sorted by it
+  const ranged = Array.from(new Set(leaves.filter(l => RANGE_OPS.includes(l.op) && l.field !== 'id').map(l => l.field)));
+  for (const field of ranged) {
+    const listed = orderBy.some(o => o.field === field);
+    notes.push({
+      step: 'requirement',
+      detail: `Range filter on '${field}': documents without the field are not returned` + (
+        listed ? '.'
+          : orderBy.length > 0 ? `, and Firestore sorts by '${field}' after the ORDER BY fields.`
+          : `, and results are sorted by '${field}'.`
+      ),
+    });
+  }
+  return notes;
+};
+
+const indexSteps = (stmt: SelectStatement, filter: QueryFilter | undefined, orderBy: OrderByItem[]) => {
+  const indexes = requiredIndexes(stmt.collection, stmt.collectionGroup, filter, orderBy);
+  const steps: Step[] = indexes.length > 0
+    ? indexes.map(index => ({ step: 'index', detail: `Composite index: ${formatIndex(index)}` }))
+    : [{ step: 'index', detail: 'Single-field indexes only (created automatically)' }];
+  return { indexes, steps };
+};
+
+const limitStep = (limit: number | undefined, offset: number | undefined): Step[] => {
+  const steps: Step[] = [{
+    step: 'limit',
+    detail: limit === undefined ? 'None: every matching document is read' : `limit(${limit + (offset ?? 0)})`,
+  }];
+  if (offset) {
+    steps.push({
+      step: 'offset',
+      detail: `The Web SDK has no offset(): ${offset} extra documents are read and dropped on the first page.`,
+    });
+  }
+  return steps;
+};
+
+const explainJoin = (stmt: SelectStatement, limit: number | undefined) => {
+  const { pushdown, residual, orderBy = [] } = planJoin(stmt);
+  const filter = pushdown ? compileFilter(pushdown) : undefined;
+  const steps: Step[] = [sourceStep(stmt)];
+
+  steps.push({ step: 'where', detail: filter ? renderFilter(filter) : 'None' });
+  orderBy.forEach(o => steps.push({ step: 'order by', detail: `orderBy(${renderFieldRef(o.field)}, '${o.direction}')` }));
+  steps.push(...limitStep(limit, stmt.offset));
+  for (const join of stmt.joins ?? []) {
+    steps.push({
+      step: 'join',
+      detail: `${join.type === 'left' ? 'LEFT JOIN' : 'JOIN'} ${join.alias}: look up '${join.collection}' by the IDs in ` +
+        `${join.localField}, in documentId() IN batches of 30` +
+        (join.type === 'left' ? '; rows without a match are kept' : '; rows without a match are dropped'),
+    });
+  }
+  if (residual) steps.push({ step: 'client filter', detail: `${renderCondition(residual)} — checked after joining` });
+  steps.push(...orderingNotes(filter, orderBy));
+
+  const index = indexSteps(stmt, filter, orderBy);
+  return { steps: [...steps, ...index.steps], indexes: index.indexes };
+};
+
+const explainQuery = (stmt: SelectStatement, limit: number | undefined) => {
+  const split = splitCondition(stmt.where, stmt.collectionGroup);
+  const filter = split.pushdown ? compileFilter(split.pushdown) : undefined;
+  const hasAggregates = !!stmt.fields?.some(f => f.kind === 'aggregate');
+  const grouped = needsClientGrouping(stmt) || (hasAggregates && !!split.residual);
+  const scanLimit = stmt.scanLimit ?? DEFAULT_SCAN_LIMIT;
+  // Grouping reads in document order and sorts the groups itself
+  const orderBy = grouped ? [] : stmt.orderBy ?? [];
+  const steps: Step[] = [sourceStep(stmt)];
+
+  steps.push({ step: 'where', detail: filter ? renderFilter(filter) : 'None' });
+  orderBy.forEach(o => steps.push({ step: 'order by', detail: `orderBy(${renderFieldRef(o.field)}, '${o.direction}')` }));
+
+  if (split.residual) {
+    steps.push({ step: 'client filter', detail: `${renderCondition(split.residual)} — checked in the browser` });
+    const target = grouped || limit === undefined ? 'every match' : `${limit + (stmt.offset ?? 0)} matches`;
+    steps.push({
+      step: 'limit',
+      detail: `Pages of documents until ${target} or the scan budget of ${scanLimit} documents`,
+    });
+  } else if (grouped) {
+    steps.push({ step: 'limit', detail: `limit(${scanLimit + 1}): at most ${scanLimit} documents are grouped (SCAN LIMIT)` });
+  } else if (hasAggregates) {
+    const fns = stmt.fields!.map(f => (f.kind === 'aggregate' ? `${f.fn}(${f.field ? `'${f.field}'` : ''})` : '')).filter(Boolean);
+    steps.push({ step: 'aggregate', detail: `getAggregateFromServer({ ${fns.join(', ')} }) — no documents downloaded` });
+    if (typeof stmt.limit === 'number') steps.push({ step: 'limit', detail: `limit(${stmt.limit})` });
+  } else {
+    steps.push(...limitStep(limit, stmt.offset));
+  }
+
+  if (grouped) {
+    const parts = [
+      stmt.distinct && 'DISTINCT',
+      stmt.groupBy && `GROUP BY ${stmt.groupBy.join(', ')}`,
+      stmt.having && 'HAVING',
+      hasAggregates && 'aggregates',
+      stmt.orderBy && 'ORDER BY',
+    ].filter(Boolean);
+    steps.push({ step: 'grouping', detail: `${parts.join(', ')} evaluated in the browser` });
+  }
+  steps.push(...orderingNotes(filter, orderBy));
+
+  const index = indexSteps(stmt, filter, orderBy);
+  return { steps: [...steps, ...index.steps], indexes: index.indexes };
+};
+
+export const explainSelect = (stmt: SelectStatement, limit: number | undefined, documentRead: boolean): QueryResult => {
+  if (documentRead) {
+    return {
+      type: 'explain',
+      columns: ['step', 'detail'],
+      rows: [
+        { id: '1', step: 'source', detail: `getDoc(doc(db, '${stmt.collection}'))` },
+        { id: '2', step: 'index', detail: 'None: a single document is read by its path' },
+      ],
+      message: `Query plan for document '${stmt.collection}' (nothing was read)`,
+      indexes: []
+    };
+  }
+
+  const { steps, indexes } = stmt.joins ? explainJoin(stmt, limit) : explainQuery(stmt, limit);
+  const needs = indexes.length === 0
+    ? 'no composite index needed'
+    : `needs ${indexes.length} composite index${indexes.length === 1 ? '' : 'es'}`;
+
+  return {
+    type: 'explain',
+    columns: ['step', 'detail'],
+    rows: steps.map((s, i) => ({ id: String(i + 1), ...s })),
+    message: `Query plan for '${stmt.collection}' — ${needs} (nothing was read)`,
+    collectionName: stmt.collection,
+    collectionGroup: stmt.collectionGroup,
+    indexes
+  };
+};
@@ -0,0 +1,107 @@
+import { ExpressionNode, ScalarFunction } from './ast';
+import { evaluateValue } from './filters';
+import { ValueMode } from './literals';
+import { compareValues, getFieldValue } from './values';
+
+/**
+ * Evaluates SET expressions (`visits = visits + 1`, `email = LOWER(email)`)
+ * and client-side WHERE operands (`LENGTH(name) > 10`) against the current
+ * contents of one document.
+ *
+ * NULL handling follows SQL: arithmetic and string functions on a missing or
+ * null field yield null rather than an error. Date functions work in UTC.
+ */
+
+// True when the expression never reads the document, so one value fits every target
+export const isConstant = (expr: ExpressionNode): boolean => {
+  switch (expr.kind) {
+    case 'fieldRef': return false;
+    case 'binary': return isConstant(expr.left) && isConstant(expr.right);
+    case 'negate': return isConstant(expr.operand);
+    case 'scalar': return expr.args.every(isConstant);
+    default: return true;
+  }
+};
+
+const typeName = (v: any) => (Array.isArray(v) ? 'array' : v === null ? 'null' : typeof v);
+
+const requireNumber = (v: any, context: string): number => {
+  if (typeof v !== 'number') throw new Error(`${context} needs a number, got ${typeName(v)}.`);
+  return v;
+};
+
+const requireString = (v: any, context: string): string => {
+  if (typeof v !== 'string') throw new Error(`${context} needs a string, got ${typeName(v)}.`);
+  return v;
+};
+
+// Timestamps, Dates, and ISO strings or epoch milliseconds
+const requireDate = (v: any, context: string): Date => {
+  if (v instanceof Date) return v;
+  if (v !== null && typeof v === 'object' && typeof v.toDate === 'function') return v.toDate();
+  const date = typeof v === 'string' || typeof v === 'number' ? new Date(v) : undefined;
+  if (!date || isNaN(date.getTime())) throw new Error(`${context} needs a timestamp, got ${typeName(v)}.`);
+  return date;
+};
+
+const applyScalar = (fn: ScalarFunction, args: any[]): any => {
+  const name = `${fn.toUpperCase()}()`;
+  if (fn === 'coalesce') return args.find(a => a !== null) ?? null;
+  if (fn === 'concat') return args.map(a => (a === null ? '' : typeof a === 'object' ? JSON.stringify(a) : String(a))).join('');
+  if (args[0] === null) return null;
+
+  switch (fn) {
+    case 'lower': return requireString(args[0], name).toLowerCase();
+    case 'upper': return requireString(args[0], name).toUpperCase();
+    case 'trim': return requireString(args[0], name).trim();
+    case 'length':
+      return Array.isArray(args[0]) ? args[0].length : requireString(args[0], name).length;
+    case 'abs': return Math.abs(requireNumber(args[0], name));
+    case 'round': {
+      const factor = 10 ** (args[1] === undefined ? 0 : requireNumber(args[1], name));
+      return Math.round(requireNumber(args[0], name) * factor) / factor;
+    }
+    case 'contains':
+      // Substring test for strings, element test for arrays
+      if (Array.isArray(args[0])) return args[0].some(item => compareValues(item, args[1]) === 0);
+      return requireString(args[0], name).includes(requireString(args[1], name));
+    case 'year': return requireDate(args[0], name).getUTCFullYear();
+    case 'month': return requireDate(args[0], name).getUTCMonth() + 1;
+    case 'day': return requireDate(args[0], name).getUTCDate();
+    case 'date': return requireDate(args[0], name).toISOString().slice(0, 10);
+  }
+};
+
+const applyBinary = (op: '+' | '-' | '*' | '/', left: any, right: any): any => {
+  if (left === null || right === null) return null;
+  const a = requireNumber(left, `'${op}'`);
+  const b = requireNumber(right, `'${op}'`);
+  switch (op) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/':
+      if (b === 0) throw new Error("Division by zero.");
+      return a / b;
+  }
+};
+
+export const evaluateExpression = (expr: ExpressionNode, row: Record<string, any>, mode: ValueMode = 'write'): any => {
+  const evaluate = (e: ExpressionNode) => evaluateExpression(e, row, 'filter');
+
+  switch (expr.kind) {
+    case 'fieldRef':
+      return getFieldValue(row, expr.path) ?? null; // A missing field reads as NULL
+    case 'binary':
+      return applyBinary(expr.op, evaluate(expr.left), evaluate(expr.right));
+    case 'negate': {
+      const operand = evaluate(expr.operand);
+      return operand === null ? null : -requireNumber(operand, "'-'");
+    }
+    case 'scalar':
+      return applyScalar(expr.fn, expr.args.map(evaluate));
+    default:
+      // Only a top-level value may be a write sentinel (NOW(), INCREMENT(1), ...)
+      return evaluateValue(expr, mode);
+  }
+};
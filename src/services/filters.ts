@@ -0,0 +1,145 @@
+import { QueryFilter } from './firebaseService';
+import { ComparisonNode, ConditionNode, ValueNode } from './ast';
+import { evaluateCall, ValueMode } from './literals';
+import { parameterLabel } from './parameters';
+
+/**
+ * Compiles WHERE conditions into Firestore filter trees.
+ *
+ * Firestore rejects several combinations only once the query reaches the
+ * backend (or with an opaque SDK assertion), so the known limits are checked
+ * here first and reported in terms of the FireSQL syntax.
+ */
+
+// Firestore limits, see https://firebase.google.com/docs/firestore/query-data/queries#limits_on_or_queries
+const MAX_DISJUNCTIONS = 30;
+const MAX_IN_VALUES = 30;
+const MAX_NOT_IN_VALUES = 10;
+
+const SQL_OPS: Record<string, string> = {
+  'in': 'IN',
+  'not-in': 'NOT IN',
+  'array-contains': 'ARRAY_CONTAINS',
+  'array-contains-any': 'ARRAY_CONTAINS_ANY',
+};
+
+const opName = (op: string) => SQL_OPS[op] ?? op;
+
+export type WhereLeaf = Extract<QueryFilter, { kind: 'where' }>;
+
+export const evaluateValue = (node: ValueNode, mode: ValueMode = 'filter'): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'array':
+      return node.items.map(item => evaluateValue(item, mode));
+    case 'object': {
+      const obj: Record<string, any> = {};
+      for (const entry of node.entries) {
+        obj[entry.key] = evaluateValue(entry.value, mode);
+      }
+      return obj;
+    }
+    case 'call':
+      // Arguments are plain values; sentinels cannot nest
+      return evaluateCall(node.fn, node.args.map(arg => evaluateValue(arg)), mode);
+    case 'parameter':
+      // bindParameters() replaces these before execution
+      throw new Error(`Parameter ${parameterLabel(node.name)} has no value.`);
+  }
+};
+
+const compileComparison = (node: ComparisonNode): QueryFilter => {
+  const value = evaluateValue(node.value);
+
+  if (node.op === 'in' || node.op === 'not-in' || node.op === 'array-contains-any') {
+    const max = node.op === 'not-in' ? MAX_NOT_IN_VALUES : MAX_IN_VALUES;
+    if (!Array.isArray(value) || value.length === 0) {
+      throw new Error(`${opName(node.op)} on '${node.field}' needs a non-empty list of values.`);
+    }
+    if (value.length > max) {
+      throw new Error(`${opName(node.op)} on '${node.field}' accepts at most ${max} values in Firestore (got ${value.length}).`);
+    }
+  }
+
+  return { kind: 'where', field: node.field, op: node.op, value };
+};
+
+const compile = (node: ConditionNode): QueryFilter => {
+  if (node.kind === 'comparison') return compileComparison(node);
+  if (node.kind === 'clientPredicate') {
+    // splitCondition() keeps these out of the pushed-down filter
+    throw new Error("LIKE, ILIKE, REGEXP and functions of fields are evaluated in the client and cannot be sent to Firestore.");
+  }
+  return { kind: node.kind, filters: node.conditions.map(compile) };
+};
+
+const leaves = (filter: QueryFilter): WhereLeaf[] =>
+  filter.kind === 'where' ? [filter] : filter.filters.flatMap(leaves);
+
+const hasOr = (filter: QueryFilter): boolean =>
+  filter.kind === 'or' || (filter.kind === 'and' && filter.filters.some(hasOr));
+
+// Number of AND-groups once the filter is expanded into disjunctive normal
+// form; IN and ARRAY_CONTAINS_ANY count once per value, as Firestore does.
+const disjunctionCount = (filter: QueryFilter): number => {
+  if (filter.kind === 'where') {
+    return filter.op === 'in' || filter.op === 'array-contains-any' ? filter.value.length : 1;
+  }
+  const counts = filter.filters.map(disjunctionCount);
+  return filter.kind === 'or'
+    ? counts.reduce((a, b) => a + b, 0)
+    : counts.reduce((a, b) => a * b, 1);
+};
+
+// Expands into the AND-groups of the disjunctive normal form (IN kept as one leaf)
+export const conjunctions = (filter: QueryFilter): WhereLeaf[][] => {
+  if (filter.kind === 'where') return [[filter]];
+  if (filter.kind === 'or') return filter.filters.flatMap(conjunctions);
+  return filter.filters
+    .map(conjunctions)
+    .reduce<WhereLeaf[][]>(
+      (acc, groups) => acc.flatMap(left => groups.map(right => [...left, ...right])),
+      [[]]
+    );
+};
+
+const validate = (filter: QueryFilter) => {
+  const all = leaves(filter);
+  const count = (op: string) => all.filter(f => f.op === op).length;
+
+  const disjunctions = disjunctionCount(filter);
+  if (disjunctions > MAX_DISJUNCTIONS) {
+    throw new Error(
+      `WHERE expands to ${disjunctions} OR branches; Firestore allows at most ${MAX_DISJUNCTIONS}. ` +
+      `Reduce IN lists or OR conditions.`
+    );
+  }
+
+  if (count('not-in') > 1 || (count('not-in') > 0 && count('!=') > 0)) {
+    throw new Error("Firestore allows only one NOT IN per query, and it cannot be combined with !=.");
+  }
+
+  if (count('not-in') > 0) {
+    if (hasOr(filter) || count('in') > 0 || count('array-contains-any') > 0) {
+      throw new Error("Firestore cannot combine NOT IN with OR, IN or ARRAY_CONTAINS_ANY in the same query.");
+    }
+  }
+
+  for (const group of conjunctions(filter)) {
+    const contains = group.filter(f => f.op === 'array-contains').length;
+    const containsAny = group.filter(f => f.op === 'array-contains-any').length;
+    if (contains > 1) {
+      throw new Error("Firestore allows only one ARRAY_CONTAINS per AND group. Use ARRAY_CONTAINS_ANY or split the query.");
+    }
+    if (contains > 0 && containsAny > 0) {
+      throw new Error("Firestore cannot combine ARRAY_CONTAINS and ARRAY_CONTAINS_ANY in the same AND group.");
+    }
+  }
+};
+
+export const compileFilter = (condition: ConditionNode): QueryFilter => {
+  const filter = compile(condition);
+  validate(filter);
+  return filter;
+};
@@ -1,27 +1,50 @@
 import { initializeApp, FirebaseApp, getApps, deleteApp } from 'firebase/app';
 import {
   getFirestore,
+  connectFirestoreEmulator,
   Firestore,
   collection,
+  collectionGroup,
   getDocs,
-  addDoc,
   doc,
   updateDoc,
   deleteDoc,
+  writeBatch,
+  runTransaction,
   query,
   where,
+  and,
+  or,
   getDoc,
+  onSnapshot,
+  Unsubscribe,
   limit,
+  orderBy,
   startAfter,
+  documentId,
+  getAggregateFromServer,
+  count,
+  sum,
+  average,
+  AggregateField,
   WhereFilterOp,
-  QueryDocumentSnapshot
+  QueryDocumentSnapshot,
+  DocumentSnapshot,
+  QueryFilterConstraint
 } from 'firebase/firestore';
-import { FirebaseConfig } from '../types';
+import { EmulatorTarget, FirebaseConfig } from '../types';
+
+// Filter tree handed over by the query engine; mirrors Firestore's where/and/or
+export type QueryFilter =
+  | { kind: 'where'; field: string; op: WhereFilterOp; value: any }
+  | { kind: 'and' | 'or'; filters: QueryFilter[] };
 
 let app: FirebaseApp | undefined;
 let db: Firestore | undefined;
+// Set while connected to a local emulator rather than the production endpoints
+let emulatorTarget: { projectId: string; target: EmulatorTarget } | undefined;
 
-export const initializeFirebase = (config: FirebaseConfig) => {
+export const initializeFirebase = (config: FirebaseConfig, emulator?: EmulatorTarget) => {
   // If an app already exists, delete it to allow re-configuration
   if (getApps().length > 0) {
     const currentApp = getApps()[0];
@@ -31,6 +54,11 @@ export const initializeFirebase = (config: FirebaseConfig) => {
   try {
     app = initializeApp(config);
     db = getFirestore(app);
+    emulatorTarget = undefined;
+    if (emulator) {
+      connectFirestoreEmulator(db, emulator.host, emulator.port);
+      emulatorTarget = { projectId: config.projectId, target: emulator };
+    }
     return true;
   } catch (e) {
     console.error("Firebase Init Error", e);
@@ -40,68 +68,169 @@ export const initializeFirebase = (config: FirebaseConfig) => {
 
 export const isFirebaseInitialized = () => !!db;
 
+// Deletes every document in the connected emulator's database, through the
+// emulator's REST API. Refuses to run against anything but an emulator.
+export const clearEmulatorData = async () => {
+  if (!emulatorTarget) {
+    throw new Error("Clearing all data is only available when connected to the Firestore emulator.");
+  }
+  const { projectId, target } = emulatorTarget;
+  const url = `http://${target.host}:${target.port}/emulator/v1/projects/${encodeURIComponent(projectId)}/databases/(default)/documents`;
+  const response = await fetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`The emulator at ${target.host}:${target.port} refused to clear its data (HTTP ${response.status}).`);
+  }
+};
+
 // --- Core Operations ---
 
-export const executeSelect = async (
-  colName: string, 
-  whereClause?: { field: string, op: string, value: any },
-  limitVal?: number,
-  startAfterDoc?: QueryDocumentSnapshot
-) => {
+// `id` refers to the document ID, as it does in the results table
+const fieldRef = (field: string) => (field === 'id' ? documentId() : field);
+
+const buildFilter = (filter: QueryFilter): QueryFilterConstraint => {
+  if (filter.kind === 'where') {
+    // Values arrive already typed from the query parser
+    return where(fieldRef(filter.field), filter.op, filter.value);
+  }
+  const children = filter.filters.map(buildFilter);
+  return filter.kind === 'and' ? and(...children) : or(...children);
+};
+
+// Hidden column carrying each row's full document path. It is not listed in
+// QueryResult.columns but can be selected explicitly (SELECT __path, ...).
+export const PATH_COLUMN = '__path';
+
+const toRow = (d: DocumentSnapshot) => ({ id: d.id, ...d.data(), [PATH_COLUMN]: d.ref.path });
+
+export interface SelectOptions {
+  collectionGroup?: boolean; // Query every collection with this ID, across all parents
+  filter?: QueryFilter;
+  orderBy?: { field: string; direction: 'asc' | 'desc' }[];
+  limit?: number;          // Omit to fetch every matching document
+  offset?: number;         // Only applied to the first page (no startAfterDoc)
+  startAfterDoc?: QueryDocumentSnapshot;
+}
+
+
+const buildQuery = (colName: string, options: SelectOptions) => {
   if (!db) throw new Error("Database not connected");
 
-  const colRef = collection(db, colName);
+  if (options.collectionGroup && colName.includes('/')) {
+    throw new Error(`Collection group '${colName}' must be a collection ID, not a path.`);
+  }
+  const colRef = options.collectionGroup ? collectionGroup(db, colName) : collection(db, colName);
   let constraints: any[] = [];
 
-  if (whereClause) {
-    // Map SQL operators to Firestore operators
-    const opMap: Record<string, WhereFilterOp> = {
-      '=': '==',
-      '==': '==',
-      '>': '>',
-      '<': '<',
-      '>=': '>=',
-      '<=': '<=',
-      '!=': '!=',
-      'array-contains': 'array-contains'
-    };
-
-    const fsOp = opMap[whereClause.op];
-    if (!fsOp) throw new Error(`Unsupported operator: ${whereClause.op}`);
-
-    let val = whereClause.value;
-    // Basic type inference for the value
-    if (val === 'true') val = true;
-    if (val === 'false') val = false;
-    if (!isNaN(Number(val)) && val !== '') val = Number(val);
-    if (val.startsWith("'") && val.endsWith("'")) val = val.slice(1, -1);
-    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
-
-    constraints.push(where(whereClause.field, fsOp, val));
+  if (options.filter) {
+    constraints.push(buildFilter(options.filter));
+  }
+
+  // Ordering must precede the cursor: startAfter() reads the ordered field
+  // values off the snapshot, which keeps pagination stable under ORDER BY.
+  for (const o of options.orderBy ?? []) {
+    constraints.push(orderBy(fieldRef(o.field), o.direction));
   }
 
-  if (startAfterDoc) {
-    constraints.push(startAfter(startAfterDoc));
+  if (options.startAfterDoc) {
+    constraints.push(startAfter(options.startAfterDoc));
   }
 
-  if (limitVal) {
-    constraints.push(limit(limitVal));
+  // The Web SDK has no offset(), so skipped documents are fetched and dropped
+  const skip = options.startAfterDoc ? 0 : options.offset ?? 0;
+
+  if (options.limit) {
+    constraints.push(limit(options.limit + skip));
   }
 
-  const q = query(colRef, ...constraints);
+  return { q: query(colRef, ...constraints), skip };
+};
+
+export const executeSelect = async (colName: string, options: SelectOptions = {}) => {
+  const { q, skip } = buildQuery(colName, options);
   const snapshot = await getDocs(q);
+  const docs = snapshot.docs.slice(skip);
   
-  const rows = snapshot.docs.map(d => ({ id: d.id, ...d.data() }));
-  const lastDoc = snapshot.docs.length > 0 ? snapshot.docs[snapshot.docs.length - 1] : undefined;
+  const rows = docs.map(toRow);
+  const lastDoc = docs.length > 0 ? docs[docs.length - 1] : undefined;
+
+  // docs[i] is the snapshot behind rows[i], usable as a cursor
+  return { rows, docs, lastDoc };
+};
+
+// Live version of executeSelect: onNext receives every matching row each time
+// the result changes. OFFSET cannot be applied to a listener.
+export const subscribeSelect = (
+  colName: string,
+  options: Omit<SelectOptions, 'offset' | 'startAfterDoc'>,
+  onNext: (rows: Record<string, any>[], fromCache: boolean) => void,
+  onError: (err: Error) => void
+): Unsubscribe => {
+  const { q } = buildQuery(colName, options);
+  return onSnapshot(q, snapshot => onNext(snapshot.docs.map(toRow), snapshot.metadata.fromCache), onError);
+};
 
-  return { rows, lastDoc };
+// Live version of executeGetDoc; null while the document does not exist
+export const subscribeDoc = (
+  docPath: string,
+  onNext: (row: Record<string, any> | null, fromCache: boolean) => void,
+  onError: (err: Error) => void
+): Unsubscribe => {
+  if (!db) throw new Error("Database not connected");
+  return onSnapshot(doc(db, docPath), snap => onNext(snap.exists() ? toRow(snap) : null, snap.metadata.fromCache), onError);
 };
 
-export const executeInsert = async (colName: string, data: any) => {
+// Firestore accepts at most 30 values in an 'in' filter
+const MAX_IN_VALUES = 30;
+
+// Fetches documents of one collection by ID with where(documentId(), 'in', ...)
+// in parallel chunks; IDs that do not exist are simply absent from the result
+export const executeGetDocsById = async (colName: string, ids: string[]) => {
   if (!db) throw new Error("Database not connected");
   const colRef = collection(db, colName);
-  const docRef = await addDoc(colRef, data);
-  return { id: docRef.id, ...data };
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += MAX_IN_VALUES) {
+    chunks.push(ids.slice(i, i + MAX_IN_VALUES));
+  }
+  const snapshots = await Promise.all(chunks.map(chunk => getDocs(query(colRef, where(documentId(), 'in', chunk)))));
+  return snapshots.flatMap(snapshot => snapshot.docs.map(toRow));
+};
+
+// DocumentReference for REF('users/abc') literals
+export const documentRef = (docPath: string) => {
+  if (!db) throw new Error("Database not connected");
+  return doc(db, docPath);
+};
+
+// Reads a single document by its full path (e.g. users/abc123)
+export const executeGetDoc = async (docPath: string) => {
+  if (!db) throw new Error("Database not connected");
+  const snap = await getDoc(doc(db, docPath));
+  return snap.exists() ? toRow(snap) : null;
+};
+
+export interface AggregateRequest {
+  fn: 'count' | 'sum' | 'avg';
+  field?: string;
+}
+
+// Runs COUNT/SUM/AVG on the server; no documents are downloaded.
+// Results come back in the same order as `aggregates`.
+export const executeAggregate = async (
+  colName: string,
+  aggregates: AggregateRequest[],
+  options: Omit<SelectOptions, 'offset' | 'startAfterDoc'> = {}
+) => {
+  const { q } = buildQuery(colName, options);
+
+  const spec: Record<string, AggregateField<number | null>> = {};
+  aggregates.forEach((a, i) => {
+    spec[`agg${i}`] = a.fn === 'count' ? count() : a.fn === 'sum' ? sum(a.field!) : average(a.field!);
+  });
+
+  const snapshot = await getAggregateFromServer(q, spec);
+  const data = snapshot.data();
+  return aggregates.map((_, i) => data[`agg${i}`]);
 };
 
 export const executeUpdate = async (colName: string, docId: string, data: any) => {
@@ -117,4 +246,163 @@ export const executeDelete = async (colName: string, docId: string) => {
   const docRef = doc(db, colName, docId);
   await deleteDoc(docRef);
   return docId;
-};
\ No newline at end of file
+};
+
+// Firestore commits at most 500 writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+// Computes an update from the document's current contents (SET a = a + 1)
+export type ComputeUpdate = (row: Record<string, any>) => Record<string, any>;
+
+// Reserves an auto-generated ID under a collection without writing anything
+export const newDocPath = (colName: string) => {
+  if (!db) throw new Error("Database not connected");
+  return doc(collection(db, colName)).path;
+};
+
+export type TransactionOp =
+  | { kind: 'get'; path: string }
+  | { kind: 'set'; path: string; data: any; merge?: boolean }
+  | { kind: 'update'; path: string; data: any }
+  | { kind: 'compute'; path: string; compute: ComputeUpdate }
+  | { kind: 'delete'; path: string };
+
+// Runs every op atomically. Blocks that read go through runTransaction, which
+// reads every 'get' and 'compute' document before the first write; write-only
+// blocks use a single writeBatch. Returns the row (or null) for each 'get', in order.
+export const executeTransaction = async (ops: TransactionOp[]) => {
+  if (!db) throw new Error("Database not connected");
+  const firestore = db;
+
+  const writes = ops.filter(op => op.kind !== 'get').length;
+  if (writes > MAX_BATCH_WRITES) {
+    throw new Error(`A transaction can write at most ${MAX_BATCH_WRITES} documents (this one writes ${writes}).`);
+  }
+
+  if (!ops.some(op => op.kind === 'get' || op.kind === 'compute')) {
+    const batch = writeBatch(firestore);
+    for (const op of ops) {
+      const ref = doc(firestore, op.path);
+      if (op.kind === 'set') batch.set(ref, op.data, { merge: !!op.merge });
+      else if (op.kind === 'update') batch.update(ref, op.data);
+      else batch.delete(ref);
+    }
+    await batch.commit();
+    return [];
+  }
+
+  return runTransaction(firestore, async tx => {
+    // Firestore transactions must finish reading before they write
+    const snapshots = new Map<TransactionOp, DocumentSnapshot>();
+    for (const op of ops) {
+      if (op.kind === 'get' || op.kind === 'compute') {
+        snapshots.set(op, await tx.get(doc(firestore, op.path)));
+      }
+    }
+
+    const reads: (Record<string, any> | null)[] = [];
+    for (const op of ops) {
+      const ref = doc(firestore, op.path);
+      const snap = snapshots.get(op);
+      if (op.kind === 'get') {
+        reads.push(snap!.exists() ? toRow(snap!) : null);
+      } else if (op.kind === 'compute') {
+        if (!snap!.exists()) throw new Error(`No document to update: ${op.path}`);
+        tx.update(ref, op.compute(toRow(snap!)));
+      } else if (op.kind === 'set') tx.set(ref, op.data, { merge: !!op.merge });
+      else if (op.kind === 'update') tx.update(ref, op.data);
+      else tx.delete(ref);
+    }
+    return reads;
+  });
+};
+
+export type BatchWrite =
+  | { kind: 'update'; data: any }
+  | { kind: 'compute'; compute: ComputeUpdate }
+  | { kind: 'delete' };
+
+// Applies the same write to every document path, one commit per chunk:
+// a writeBatch, or a transaction when the update is computed per document so
+// concurrent edits are not lost. Chunks commit in order; returns the size of
+// each committed chunk. If one fails, the error reports how far the write got.
+export const executeBatchWrite = async (docPaths: string[], write: BatchWrite) => {
+  if (!db) throw new Error("Database not connected");
+  const firestore = db;
+
+  const total = Math.ceil(docPaths.length / MAX_BATCH_WRITES);
+  const committed: number[] = [];
+
+  for (let i = 0; i < docPaths.length; i += MAX_BATCH_WRITES) {
+    const chunk = docPaths.slice(i, i + MAX_BATCH_WRITES);
+
+    try {
+      if (write.kind === 'compute') {
+        await executeTransaction(chunk.map(path => ({ kind: 'compute', path, compute: write.compute })));
+      } else {
+        const batch = writeBatch(firestore);
+        for (const path of chunk) {
+          const ref = doc(firestore, path);
+          if (write.kind === 'update') batch.update(ref, write.data);
+          else batch.delete(ref);
+        }
+        await batch.commit();
+      }
+    } catch (e: any) {
+      throw new Error(
+        `Batch ${committed.length + 1} of ${total} failed after ${i} of ${docPaths.length} documents were written: ${e.message}`
+      );
+    }
+    committed.push(chunk.length);
+  }
+
+  return committed;
+};
+
+export interface SetDocRequest {
+  path: string;
+  data: any;
+  autoId?: boolean; // Path came from newDocPath(), so the document cannot exist yet
+}
+
+export type SetDocStatus = 'created' | 'merged' | 'overwritten';
+
+// setDoc for many documents, committed in chunks of up to 500. Chunks with
+// explicit IDs run in a transaction that first checks which documents exist,
+// so each one can be reported as created, merged or overwritten.
+export const executeSetDocs = async (docs: SetDocRequest[], merge: boolean) => {
+  if (!db) throw new Error("Database not connected");
+  const firestore = db;
+
+  const total = Math.ceil(docs.length / MAX_BATCH_WRITES);
+  const statuses: SetDocStatus[] = [];
+
+  for (let i = 0; i < docs.length; i += MAX_BATCH_WRITES) {
+    const chunk = docs.slice(i, i + MAX_BATCH_WRITES);
+
+    try {
+      if (chunk.every(d => d.autoId)) {
+        const batch = writeBatch(firestore);
+        for (const d of chunk) batch.set(doc(firestore, d.path), d.data);
+        await batch.commit();
+        statuses.push(...chunk.map((): SetDocStatus => 'created'));
+      } else {
+        const chunkStatuses = await runTransaction(firestore, async tx => {
+          const existed: boolean[] = [];
+          for (const d of chunk) {
+            existed.push(!d.autoId && (await tx.get(doc(firestore, d.path))).exists());
+          }
+          chunk.forEach(d => tx.set(doc(firestore, d.path), d.data, { merge }));
+          return existed.map((e): SetDocStatus => (!e ? 'created' : merge ? 'merged' : 'overwritten'));
+        });
+        statuses.push(...chunkStatuses);
+      }
+    } catch (e: any) {
+      throw new Error(
+        `Batch ${Math.floor(i / MAX_BATCH_WRITES) + 1} of ${total} failed after ${i} of ${docs.length} documents were written: ${e.message}`
+      );
+    }
+  }
+
+  return statuses;
+};
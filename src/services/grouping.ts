@@ -0,0 +1,155 @@
+import { AggregateFunction, ConditionNode, ProjectionItem, SelectStatement } from './ast';
+import { evaluateValue } from './filters';
+import { compareValues, getFieldValue, matchesComparison } from './values';
+
+/**
+ * Client-side post-processing for GROUP BY, HAVING, DISTINCT and the
+ * aggregates Firestore cannot compute (MIN, MAX, COUNT(field)).
+ *
+ * Runs over documents already fetched by executeSelect. The caller is
+ * responsible for capping how many documents are scanned.
+ */
+
+export const DEFAULT_SCAN_LIMIT = 1000;
+
+export const columnName = (item: ProjectionItem) => {
+  if (item.alias) return item.alias;
+  if (item.kind === 'field') return item.path;
+  return `${item.fn.toUpperCase()}(${item.field ?? '*'})`;
+};
+
+export const needsClientGrouping = (stmt: SelectStatement) =>
+  !!stmt.distinct ||
+  !!stmt.groupBy ||
+  !!stmt.having ||
+  (stmt.fields ?? []).some(f =>
+    f.kind === 'aggregate' && (f.fn === 'min' || f.fn === 'max' || (f.fn === 'count' && f.field !== undefined))
+  );
+
+const computeAggregate = (fn: AggregateFunction, field: string | undefined, rows: Record<string, any>[]): any => {
+  if (fn === 'count' && field === undefined) return rows.length;
+
+  const values = rows.map(r => getFieldValue(r, field!)).filter(v => v !== undefined && v !== null);
+  switch (fn) {
+    case 'count':
+      return values.length;
+    case 'sum':
+    case 'avg': {
+      // Like Firestore, non-numeric values are ignored
+      const nums = values.filter((v): v is number => typeof v === 'number');
+      if (fn === 'sum') return nums.reduce((a, b) => a + b, 0);
+      return nums.length > 0 ? nums.reduce((a, b) => a + b, 0) / nums.length : null;
+    }
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null;
+      const sign = fn === 'min' ? 1 : -1;
+      return values.reduce((best, v) => (sign * compareValues(v, best) < 0 ? v : best));
+    }
+  }
+};
+
+const matchesHaving = (
+  condition: ConditionNode,
+  groupRows: Record<string, any>[],
+  outputRow: Record<string, any>
+): boolean => {
+  if (condition.kind === 'clientPredicate') {
+    throw new Error("LIKE, ILIKE, REGEXP and functions are not supported in HAVING.");
+  }
+  if (condition.kind !== 'comparison') {
+    const test = (c: ConditionNode) => matchesHaving(c, groupRows, outputRow);
+    return condition.kind === 'and' ? condition.conditions.every(test) : condition.conditions.some(test);
+  }
+
+  let actual: any;
+  if (condition.aggregate) {
+    actual = computeAggregate(condition.aggregate, condition.field === '*' ? undefined : condition.field, groupRows);
+  } else if (condition.field in outputRow) {
+    actual = outputRow[condition.field]; // Output column or alias
+  } else {
+    actual = groupRows.length > 0 ? getFieldValue(groupRows[0], condition.field) : undefined;
+  }
+  return matchesComparison(actual, condition.op, evaluateValue(condition.value));
+};
+
+const rowKey = (values: any[]) => JSON.stringify(values);
+
+export const groupRows = (stmt: SelectStatement, rows: Record<string, any>[]) => {
+  if (!stmt.fields) {
+    throw new Error("GROUP BY and HAVING need an explicit column list instead of SELECT *.");
+  }
+
+  const items = stmt.fields;
+  const columns = items.map(columnName);
+  const hasAggregates = items.some(i => i.kind === 'aggregate') || !!stmt.having;
+  const groupBy = stmt.groupBy ?? [];
+
+  // Standard SQL rule: every plain column must be one of the grouping keys
+  if (hasAggregates || groupBy.length > 0) {
+    for (const item of items) {
+      if (item.kind === 'field' && !groupBy.includes(item.path)) {
+        throw new Error(`Column '${item.path}' must appear in GROUP BY or be used in an aggregate function.`);
+      }
+    }
+  }
+
+  let output: Record<string, any>[];
+
+  if (!hasAggregates && groupBy.length === 0) {
+    // Plain DISTINCT: one output row per document
+    output = rows.map(row => {
+      const out: Record<string, any> = {};
+      items.forEach((item, i) => { out[columns[i]] = item.kind === 'field' ? getFieldValue(row, item.path) : undefined; });
+      return out;
+    });
+  } else {
+    const groups = new Map<string, Record<string, any>[]>();
+    if (groupBy.length === 0) groups.set('', rows); // Whole result is one group, even when empty
+    for (const row of groupBy.length > 0 ? rows : []) {
+      const key = rowKey(groupBy.map(f => getFieldValue(row, f) ?? null));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+
+    output = [];
+    for (const groupRows of groups.values()) {
+      const out: Record<string, any> = {};
+      items.forEach((item, i) => {
+        out[columns[i]] = item.kind === 'field'
+          ? (groupRows.length > 0 ? getFieldValue(groupRows[0], item.path) : null)
+          : computeAggregate(item.fn, item.field, groupRows);
+      });
+      if (!stmt.having || matchesHaving(stmt.having, groupRows, out)) {
+        output.push(out);
+      }
+    }
+  }
+
+  if (stmt.distinct) {
+    const seen = new Set<string>();
+    output = output.filter(row => {
+      const key = rowKey(columns.map(c => row[c] ?? null));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // ORDER BY refers to output columns (aliases or grouping keys)
+  if (stmt.orderBy) {
+    const orderBy = stmt.orderBy;
+    output.sort((a, b) => {
+      for (const o of orderBy) {
+        const c = compareValues(getFieldValue(a, o.field), getFieldValue(b, o.field));
+        if (c !== 0) return o.direction === 'asc' ? c : -c;
+      }
+      return 0;
+    });
+  }
+
+  const start = stmt.offset ?? 0;
+  const end = typeof stmt.limit === 'number' ? start + stmt.limit : undefined;
+  return { columns, rows: output.slice(start, end) };
+};
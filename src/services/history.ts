@@ -0,0 +1,103 @@
+import { newLocalId } from './ids';
+import { QueryHistoryItem } from '../types';
+
+/**
+ * Query history, kept in IndexedDB so it survives reloads and sign-outs.
+ * Unpinned entries beyond MAX_HISTORY are dropped, oldest first.
+ */
+
+const DB_NAME = 'fireSQL';
+const DB_VERSION = 1;
+const STORE = 'history';
+
+export const MAX_HISTORY = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user allows storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in one transaction and resolves when it has committed
+const transact = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = work(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Oldest first, like the in-memory list
+export const loadHistory = async (): Promise<QueryHistoryItem[]> => {
+  const items = await transact<QueryHistoryItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveHistoryItems = (items: QueryHistoryItem[]) =>
+  transact<void>('readwrite', store => {
+    items.forEach(item => store.put(item));
+  });
+
+export const deleteHistoryItem = (id: string) =>
+  transact<void>('readwrite', store => {
+    store.delete(id);
+  });
+
+// Entries that no longer fit, given the full list oldest first
+export const overflowHistory = (items: QueryHistoryItem[]): QueryHistoryItem[] => {
+  const unpinned = items.filter(item => !item.pinned);
+  return unpinned.slice(0, Math.max(0, items.length - MAX_HISTORY));
+};
+
+export const historyFile = (items: QueryHistoryItem[]) =>
+  JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), history: items }, null, 2) + '\n';
+
+const numberOrUndefined = (value: any) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const stringOrUndefined = (value: any) => (typeof value === 'string' ? value : undefined);
+
+// Accepts an exported file, or a bare array of entries
+export const parseHistoryFile = (text: string): QueryHistoryItem[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : parsed?.history;
+  if (!Array.isArray(entries)) throw new Error("Expected an exported history file with a 'history' array.");
+
+  return entries.map((entry: any, i: number): QueryHistoryItem => {
+    if (typeof entry?.query !== 'string' || typeof entry.timestamp !== 'number') {
+      throw new Error(`History entry ${i + 1} needs a 'query' string and a 'timestamp' number.`);
+    }
+    // Only known fields are kept; anything else in the file is dropped
+    return {
+      id: typeof entry.id === 'string' ? entry.id : newLocalId(),
+      query: entry.query,
+      timestamp: entry.timestamp,
+      status: entry.status === 'error' ? 'error' : 'success',
+      durationMs: numberOrUndefined(entry.durationMs),
+      rowCount: numberOrUndefined(entry.rowCount),
+      collection: stringOrUndefined(entry.collection),
+      error: stringOrUndefined(entry.error),
+      projectId: stringOrUndefined(entry.projectId),
+      pinned: entry.pinned === true || undefined,
+    };
+  });
+};
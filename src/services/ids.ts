@@ -0,0 +1,2 @@
+// Key for records created in this browser: history entries, saved queries, connection profiles
+export const newLocalId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,169 @@
+import { OrderByItem } from './ast';
+import { QueryFilter } from './firebaseService';
+import { conjunctions, WhereLeaf } from './filters';
+import { IndexDefinition, IndexField } from '../types';
+
+/**
+ * Composite index helpers: the indexes a query needs, the index named in a
+ * Firestore missing-index error, and the firestore.indexes.json file that
+ * deploys them.
+ */
+
+const EQUALITY_OPS = ['==', 'in'];
+const ARRAY_OPS = ['array-contains', 'array-contains-any'];
+
+// Document IDs are indexed as __name__
+const indexPath = (field: string) => (field === 'id' ? '__name__' : field);
+
+// Index for one AND-group: equality fields, then array fields, then the
+// ordered fields (ORDER BY, followed by any range field it does not list).
+// Single-field indexes are automatic, as is merging equality-only lookups.
+const conjunctionIndex = (leaves: WhereLeaf[], orderBy: OrderByItem[]): IndexField[] | undefined => {
+  const ordered: IndexField[] = orderBy.map(o => ({
+    fieldPath: indexPath(o.field),
+    order: o.direction === 'asc' ? 'ASCENDING' : 'DESCENDING',
+  }));
+  const listed = (field: string) => ordered.some(f => f.fieldPath === field);
+  for (const leaf of leaves) {
+    const path = indexPath(leaf.field);
+    if (!EQUALITY_OPS.includes(leaf.op) && !ARRAY_OPS.includes(leaf.op) && !listed(path)) {
+      ordered.push({ fieldPath: path, order: 'ASCENDING' });
+    }
+  }
+
+  const fields: IndexField[] = [];
+  const add = (field: IndexField) => {
+    if (!fields.some(f => f.fieldPath === field.fieldPath) && !listed(field.fieldPath)) fields.push(field);
+  };
+  leaves.filter(l => EQUALITY_OPS.includes(l.op)).forEach(l => add({ fieldPath: indexPath(l.field), order: 'ASCENDING' }));
+  leaves.filter(l => ARRAY_OPS.includes(l.op)).forEach(l => add({ fieldPath: indexPath(l.field), arrayConfig: 'CONTAINS' }));
+
+  const all = [...fields, ...ordered];
+  return ordered.length > 0 && all.length > 1 ? all : undefined;
+};
+
+// Identity of an index, for de-duplication
+export const indexKey = (index: IndexDefinition) => JSON.stringify([index.collectionGroup, index.queryScope, index.fields]);
+
+export const mergeIndexes = (existing: IndexDefinition[], added: IndexDefinition[]) => {
+  const keys = new Set(existing.map(indexKey));
+  return [...existing, ...added.filter(index => !keys.has(indexKey(index)))];
+};
+
+// Composite indexes a query needs; an OR needs one per AND-group
+export const requiredIndexes = (
+  collection: string,
+  collectionGroup: boolean | undefined,
+  filter: QueryFilter | undefined,
+  orderBy: OrderByItem[] = []
+): IndexDefinition[] => {
+  const groups = filter ? conjunctions(filter) : [[]];
+  const indexes = groups
+    .map(leaves => conjunctionIndex(leaves, orderBy))
+    .filter((fields): fields is IndexField[] => !!fields)
+    .map((fields): IndexDefinition => ({
+      collectionGroup: collection.slice(collection.lastIndexOf('/') + 1),
+      queryScope: collectionGroup ? 'COLLECTION_GROUP' : 'COLLECTION',
+      fields,
+    }));
+  return mergeIndexes([], indexes);
+};
+
+export const formatIndex = (index: IndexDefinition) => {
+  const fields = index.fields.map(f => `${f.fieldPath} ${f.arrayConfig ? 'CONTAINS' : f.order === 'DESCENDING' ? 'DESC' : 'ASC'}`);
+  return `${index.collectionGroup}${index.queryScope === 'COLLECTION_GROUP' ? ' (group)' : ''}: ${fields.join(', ')}`;
+};
+
+export const indexesFile = (indexes: IndexDefinition[]) =>
+  JSON.stringify({ indexes, fieldOverrides: [] }, null, 2);
+
+// --- Missing-index errors ---
+
+// The console link's create_composite parameter is a base64-encoded
+// google.firestore.admin.v1.Index protobuf message:
+//   1: name ("projects/p/databases/d/collectionGroups/<group>/indexes/_")
+//   2: query_scope (1 COLLECTION, 2 COLLECTION_GROUP)
+//   3: fields, each { 1: field_path, 2: order (1 ASC, 2 DESC), 3: array_config (1 CONTAINS) }
+type ProtoFields = Map<number, (number | Uint8Array)[]>;
+
+const decodeMessage = (bytes: Uint8Array): ProtoFields => {
+  const fields: ProtoFields = new Map();
+  let pos = 0;
+
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (pos >= bytes.length) throw new Error('Truncated varint');
+      const byte = bytes[pos++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+  };
+
+  while (pos < bytes.length) {
+    const key = readVarint();
+    const field = Math.floor(key / 8);
+    let value: number | Uint8Array;
+    switch (key & 7) {
+      case 0:
+        value = readVarint();
+        break;
+      case 2: {
+        const length = readVarint();
+        value = bytes.subarray(pos, pos + length);
+        pos += length;
+        break;
+      }
+      case 1: pos += 8; continue;
+      case 5: pos += 4; continue;
+      default: throw new Error(`Unsupported wire type ${key & 7}`);
+    }
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+};
+
+const text = (value: number | Uint8Array | undefined) =>
+  value instanceof Uint8Array ? new TextDecoder().decode(value) : '';
+
+const decodeIndex = (encoded: string): IndexDefinition | undefined => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const message = decodeMessage(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+
+  const group = /\/collectionGroups\/([^/]+)\//.exec(text(message.get(1)?.[0]))?.[1];
+  if (!group) return undefined;
+
+  const fields: IndexField[] = (message.get(3) ?? [])
+    .filter((f): f is Uint8Array => f instanceof Uint8Array)
+    .map(bytes => {
+      const field = decodeMessage(bytes);
+      const order = field.get(2)?.[0];
+      return field.get(3)?.[0] === 1
+        ? { fieldPath: text(field.get(1)?.[0]), arrayConfig: 'CONTAINS' as const }
+        : { fieldPath: text(field.get(1)?.[0]), order: order === 2 ? 'DESCENDING' as const : 'ASCENDING' as const };
+    });
+  // A trailing ascending __name__ is implied by every index
+  const last = fields[fields.length - 1];
+  if (last?.fieldPath === '__name__' && last.order === 'ASCENDING') fields.pop();
+
+  return {
+    collectionGroup: group,
+    queryScope: message.get(2)?.[0] === 2 ? 'COLLECTION_GROUP' : 'COLLECTION',
+    fields,
+  };
+};
+
+// Firestore rejects queries without their composite index with a
+// failed-precondition error whose message links to the console
+export const parseIndexError = (err: any): { index?: IndexDefinition; url: string } | undefined => {
+  if (err?.code !== 'failed-precondition') return undefined;
+  const url = /https:\/\/console\.firebase\.google\.com\/\S+/.exec(err.message ?? '')?.[0];
+  if (!url) return undefined;
+
+  try {
+    const encoded = new URL(url).searchParams.get('create_composite');
+    return { index: encoded ? decodeIndex(encoded) : undefined, url };
+  } catch (e) {
+    return { url }; // Keep the link even if the encoding changes
+  }
+};
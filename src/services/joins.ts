@@ -0,0 +1,211 @@
+import { ConditionNode, ExpressionNode, FieldProjection, SelectStatement } from './ast';
+import { executeGetDocsById, executeSelect, PATH_COLUMN } from './firebaseService';
+import { compileFilter } from './filters';
+import { columnName } from './grouping';
+import { comparesDocumentId, compileResidual } from './residual';
+import { getFieldValue } from './values';
+import { QueryResult } from '../types';
+
+/**
+ * Client-side JOINs: SELECT e.amount, c.name FROM expenses e
+ *   [LEFT] JOIN categories c ON e.categoryId = c.id
+ *
+ * The FROM collection is queried as usual, with the WHERE conjuncts and ORDER
+ * BY that only involve it pushed down to Firestore. Each JOIN then looks up
+ * the referenced documents by ID in batched `documentId() in` queries, and the
+ * remaining conditions are checked on the joined rows. LIMIT and paging count
+ * documents of the FROM collection.
+ */
+
+// Distinct documents one query may look up across all of its JOINs
+export const MAX_JOIN_LOOKUPS = 1000;
+
+// One document per table alias; null where a LEFT JOIN found no match
+type JoinedRow = Record<string, Record<string, any> | null>;
+
+const aliasOf = (path: string) => path.split('.')[0];
+
+const mapExpression = (expr: ExpressionNode, map: (path: string) => string): ExpressionNode => {
+  switch (expr.kind) {
+    case 'fieldRef': return { ...expr, path: map(expr.path) };
+    case 'binary': return { ...expr, left: mapExpression(expr.left, map), right: mapExpression(expr.right, map) };
+    case 'negate': return { ...expr, operand: mapExpression(expr.operand, map) };
+    case 'scalar': return { ...expr, args: expr.args.map(arg => mapExpression(arg, map)) };
+    default: return expr;
+  }
+};
+
+const mapCondition = (condition: ConditionNode, map: (path: string) => string): ConditionNode => {
+  switch (condition.kind) {
+    case 'comparison': return { ...condition, field: map(condition.field) };
+    case 'clientPredicate': return { ...condition, left: mapExpression(condition.left, map) };
+    default: return { ...condition, conditions: condition.conditions.map(c => mapCondition(c, map)) };
+  }
+};
+
+// `FROM users u WHERE u.age > 21` without a JOIN: drop the alias prefix
+export const stripTableAlias = (stmt: SelectStatement): SelectStatement => {
+  const alias = stmt.alias;
+  if (!alias) return stmt;
+  const strip = (path: string) => (aliasOf(path) === alias && path !== alias ? path.slice(alias.length + 1) : path);
+  return {
+    ...stmt,
+    alias: undefined,
+    fields: stmt.fields?.map(f => (f.kind === 'field' ? { ...f, path: strip(f.path) } : { ...f, field: f.field && strip(f.field) })),
+    where: stmt.where && mapCondition(stmt.where, strip),
+    groupBy: stmt.groupBy?.map(strip),
+    having: stmt.having && mapCondition(stmt.having, strip),
+    orderBy: stmt.orderBy?.map(o => ({ ...o, field: strip(o.field) })),
+  };
+};
+
+// The joined document's ID from a local value: a plain ID, or a
+// DocumentReference (or path string) into the joined collection
+const documentKey = (value: any, collection: string): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  const isReference = value !== null && typeof value === 'object' && typeof value.path === 'string';
+  const path: string | undefined = typeof value === 'string' ? value : isReference ? value.path : undefined;
+  if (!path) return undefined;
+  if (!path.includes('/')) return path;
+
+  const prefix = `${collection}/`;
+  const id = path.startsWith(prefix) ? path.slice(prefix.length) : '';
+  return id && !id.includes('/') ? id : undefined;
+};
+
+// Only plain comparisons on the FROM table can run in Firestore
+const isPushable = (condition: ConditionNode, base: string): boolean => {
+  switch (condition.kind) {
+    case 'comparison': return aliasOf(condition.field) === base;
+    case 'clientPredicate': return false;
+    default: return condition.conditions.every(c => isPushable(c, base));
+  }
+};
+
+const conjunction = (conditions: ConditionNode[]): ConditionNode | undefined => {
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { kind: 'and', conditions };
+};
+
+// SELECT *: every field of every table, prefixed by its alias
+const starColumns = (rows: JoinedRow[], aliases: string[]) =>
+  aliases.flatMap(alias => {
+    const sample = rows.find(row => row[alias])?.[alias];
+    const keys = sample ? Object.keys(sample).filter(k => k !== 'id' && k !== PATH_COLUMN) : [];
+    return ['id', ...keys].map(key => ({ column: `${alias}.${key}`, read: (row: JoinedRow) => row[alias]?.[key] }));
+  });
+
+// How a JOIN query splits between Firestore (the FROM query) and the client
+export const planJoin = (stmt: SelectStatement) => {
+  if (stmt.groupBy || stmt.having || stmt.distinct || stmt.fields?.some(f => f.kind === 'aggregate')) {
+    throw new Error("JOIN cannot be combined with GROUP BY, HAVING, DISTINCT or aggregate functions.");
+  }
+
+  const joins = stmt.joins ?? [];
+  const base = stmt.alias ?? stmt.collection.slice(stmt.collection.lastIndexOf('/') + 1);
+  const aliases = [base, ...joins.map(j => j.alias)];
+  const duplicate = aliases.find((alias, i) => aliases.indexOf(alias) !== i);
+  if (duplicate) throw new Error(`Alias '${duplicate}' is used twice; give each table its own alias.`);
+
+  // Unqualified fields belong to the FROM table: amount -> e.amount
+  const qualify = (path: string) => (aliases.includes(aliasOf(path)) ? path : `${base}.${path}`);
+  const stripBase = (path: string) => (path === base ? path : path.slice(base.length + 1));
+
+  joins.forEach((join, i) => {
+    const owner = aliasOf(qualify(join.localField));
+    if (!aliases.slice(0, i + 1).includes(owner)) {
+      throw new Error(`JOIN ${join.alias} ... ON refers to '${owner}', which is only joined later.`);
+    }
+  });
+
+  const where = stmt.where && mapCondition(stmt.where, qualify);
+  const conjuncts = !where ? [] : where.kind === 'and' ? where.conditions : [where];
+  // As in splitCondition(), IDs on a collection group are compared in the client
+  const pushable = (c: ConditionNode) =>
+    isPushable(c, base) && !(stmt.collectionGroup && comparesDocumentId(mapCondition(c, stripBase)));
+  const pushdown = conjunction(conjuncts.filter(pushable).map(c => mapCondition(c, stripBase)));
+  const residual = conjunction(conjuncts.filter(c => !pushable(c)));
+
+  const orderBy = stmt.orderBy?.map(o => {
+    const field = qualify(o.field);
+    if (aliasOf(field) !== base) {
+      throw new Error(`ORDER BY can only use fields of '${base}' in a JOIN; Firestore sorts before the lookup.`);
+    }
+    return { ...o, field: stripBase(field) };
+  });
+
+  return { base, aliases, qualify, pushdown, residual, orderBy };
+};
+
+export const runJoin = async (stmt: SelectStatement, limit: number | undefined, startAfterDoc?: any): Promise<QueryResult> => {
+  const { base, aliases, qualify, pushdown, residual, orderBy } = planJoin(stmt);
+  const joins = stmt.joins ?? [];
+
+  const page = await executeSelect(stmt.collection, {
+    collectionGroup: stmt.collectionGroup,
+    filter: pushdown ? compileFilter(pushdown) : undefined,
+    orderBy,
+    limit,
+    offset: stmt.offset,
+    startAfterDoc
+  });
+
+  let rows: JoinedRow[] = page.rows.map(row => ({ [base]: row }));
+  let lookups = 0;
+  for (const join of joins) {
+    const local = qualify(join.localField);
+    const keyOf = (row: JoinedRow) => documentKey(getFieldValue(row, local), join.collection);
+    const ids = Array.from(new Set(rows.map(keyOf).filter((id): id is string => id !== undefined)));
+
+    lookups += ids.length;
+    if (lookups > MAX_JOIN_LOOKUPS) {
+      throw new Error(
+        `JOIN ${join.alias} would look up ${lookups} documents in total; a query may look up at most ${MAX_JOIN_LOOKUPS}. ` +
+        `Add a LIMIT or narrow the WHERE.`
+      );
+    }
+
+    const found = new Map((await executeGetDocsById(join.collection, ids)).map(doc => [doc.id, doc]));
+    rows = rows.flatMap(row => {
+      const key = keyOf(row);
+      const match = key === undefined ? undefined : found.get(key);
+      if (match) return [{ ...row, [join.alias]: match }];
+      return join.type === 'left' ? [{ ...row, [join.alias]: null }] : [];
+    });
+  }
+
+  if (residual) rows = rows.filter(compileResidual(residual));
+
+  const readers = stmt.fields
+    ? stmt.fields.filter((f): f is FieldProjection => f.kind === 'field').map(f => {
+        const item = { ...f, path: qualify(f.path) };
+        return { column: columnName(item), read: (row: JoinedRow) => getFieldValue(row, item.path) };
+      })
+    : starColumns(rows, aliases);
+
+  const output = rows.map(row => {
+    // The FROM document identifies the row, e.g. for React keys and CSV export
+    const out: Record<string, any> = { id: row[base]!.id, [PATH_COLUMN]: row[base]![PATH_COLUMN] };
+    for (const { column, read } of readers) {
+      out[column] = read(row);
+    }
+    return out;
+  });
+
+  let message = `Fetched ${output.length} rows from '${stmt.collection}' joined with ` +
+    `${joins.map(j => `'${j.collection}'`).join(', ')} (${lookups} documents looked up)`;
+  if (output.length < page.rows.length) {
+    message += ` — LIMIT counted ${page.rows.length} '${stmt.collection}' documents before the join`;
+  }
+
+  return {
+    type: 'read',
+    columns: readers.map(r => r.column),
+    rows: output,
+    message,
+    collectionName: stmt.collection,
+    collectionGroup: stmt.collectionGroup,
+    lastDoc: page.lastDoc,
+    readOnly: true
+  };
+};
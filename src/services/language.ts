@@ -0,0 +1,446 @@
+import { PATH_COLUMN } from './firebaseService';
+import { valueType } from './values';
+import { CollectionSchema, SchemaField } from '../types';
+
+/**
+ * Editor support for the FireSQL dialect: highlighting, completions,
+ * signature hints and bracket matching.
+ *
+ * The scanner here is a tolerant variant of lexer.ts. It never throws, since
+ * the editor works on half-typed queries: unterminated strings and comments
+ * run to the end of the text, unknown characters become punctuation, and
+ * comments are kept as spans.
+ */
+
+export type SpanKind = 'keyword' | 'function' | 'identifier' | 'string' | 'number' | 'param' | 'comment' | 'punct';
+
+export interface Span {
+  kind: SpanKind;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Grammar words of the dialect. ID is left out: it is far more often a field.
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'GROUP', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'ILIKE', 'REGEXP',
+  'ARRAY_CONTAINS', 'ARRAY_CONTAINS_ANY', 'ORDER', 'BY', 'ASC', 'DESC', 'LIMIT', 'ALL', 'OFFSET', 'SCAN',
+  'HAVING', 'AS', 'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'INSERT', 'UPSERT', 'INTO', 'JSON', 'VALUES',
+  'CONFLICT', 'MERGE', 'UPDATE', 'SET', 'DELETE', 'PREVIEW', 'EXPLAIN', 'WRITE', 'LIVE', 'BEGIN',
+  'TRANSACTION', 'COMMIT', 'ROLLBACK', 'TRUE', 'FALSE', 'NULL',
+]);
+
+// Every callable name (aggregates, value and scalar functions) with its signature
+const FUNCTION_SIGNATURES: Record<string, string> = {
+  COUNT: 'COUNT(* | field)',
+  SUM: 'SUM(field)',
+  AVG: 'AVG(field)',
+  MIN: 'MIN(field)',
+  MAX: 'MAX(field)',
+  TIMESTAMP: 'TIMESTAMP(isoString | millis)',
+  GEOPOINT: 'GEOPOINT(latitude, longitude)',
+  REF: 'REF(documentPath)',
+  NOW: 'NOW()',
+  INCREMENT: 'INCREMENT(n)',
+  DELETE_FIELD: 'DELETE_FIELD()',
+  ARRAY_UNION: 'ARRAY_UNION(value, ...)',
+  ARRAY_REMOVE: 'ARRAY_REMOVE(value, ...)',
+  LOWER: 'LOWER(text)',
+  UPPER: 'UPPER(text)',
+  TRIM: 'TRIM(text)',
+  LENGTH: 'LENGTH(text | array)',
+  CONCAT: 'CONCAT(value, ...)',
+  COALESCE: 'COALESCE(value, ...)',
+  ABS: 'ABS(number)',
+  ROUND: 'ROUND(number, digits?)',
+  CONTAINS: 'CONTAINS(text | array, value)',
+  YEAR: 'YEAR(timestamp)',
+  MONTH: 'MONTH(timestamp)',
+  DAY: 'DAY(timestamp)',
+  DATE: 'DATE(timestamp)',
+};
+
+const FUNCTIONS = new Set(Object.keys(FUNCTION_SIGNATURES));
+
+const isIdentStart = (ch: string) => /[A-Za-z_$]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_$]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+// A name directly followed by '(' is a call
+const CALL_AHEAD = /\s*\(/y;
+
+const skipQuoted = (source: string, pos: number): number => {
+  const quote = source[pos];
+  pos++;
+  while (pos < source.length) {
+    if (source[pos] === '\\' && quote !== '`') {
+      pos += 2;
+      continue;
+    }
+    if (source[pos] === quote) {
+      if (source[pos + 1] !== quote) return pos + 1;
+      pos++;
+    }
+    pos++;
+  }
+  return source.length;
+};
+
+export const scanSpans = (source: string): Span[] => {
+  const spans: Span[] = [];
+  let pos = 0;
+  const push = (kind: SpanKind, start: number) => spans.push({ kind, start, end: pos, text: source.slice(start, pos) });
+
+  while (pos < source.length) {
+    const ch = source[pos];
+    const start = pos;
+
+    if (/\s/.test(ch)) {
+      pos++;
+    } else if (ch === '-' && source[pos + 1] === '-') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      push('comment', start);
+    } else if (ch === '/' && source[pos + 1] === '*') {
+      const close = source.indexOf('*/', pos + 2);
+      pos = close === -1 ? source.length : close + 2;
+      push('comment', start);
+    } else if (ch === "'" || ch === '"') {
+      pos = skipQuoted(source, pos);
+      push('string', start);
+    } else if (ch === '`') {
+      pos = skipQuoted(source, pos);
+      push('identifier', start);
+    } else if (isDigit(ch)) {
+      while (pos < source.length && /[0-9.eE]/.test(source[pos])) pos++;
+      push('number', start);
+    } else if (ch === ':' && isIdentStart(source[pos + 1] ?? '')) {
+      pos++;
+      while (pos < source.length && isIdentPart(source[pos])) pos++;
+      push('param', start);
+    } else if (isIdentStart(ch)) {
+      while (pos < source.length && isIdentPart(source[pos])) pos++;
+      const word = source.slice(start, pos);
+      const upper = word.toUpperCase();
+      CALL_AHEAD.lastIndex = pos;
+      const called = CALL_AHEAD.test(source);
+      if (/^\$[1-9]\d*$/.test(word)) push('param', start);
+      else if (called && FUNCTIONS.has(upper)) push('function', start);
+      else if (KEYWORDS.has(upper)) push('keyword', start);
+      else push('identifier', start);
+    } else {
+      pos += ['==', '!=', '<>', '<=', '>='].includes(source.slice(pos, pos + 2)) ? 2 : 1;
+      push('punct', start);
+    }
+  }
+  return spans;
+};
+
+// Spans of the statement the cursor is in, up to the cursor
+const statementBefore = (spans: Span[], cursor: number): Span[] => {
+  const before = spans.filter(s => s.end <= cursor);
+  const semicolon = before.map(s => s.kind === 'punct' && s.text === ';').lastIndexOf(true);
+  return before.slice(semicolon + 1).filter(s => s.kind !== 'comment');
+};
+
+const upper = (span: Span | undefined) => (span?.kind === 'keyword' ? span.text.toUpperCase() : '');
+
+const isInsideText = (spans: Span[], cursor: number) =>
+  spans.some(s => {
+    if (s.kind === 'comment') return s.start < cursor && cursor <= s.end;
+    if (s.kind !== 'string') return false;
+    const closed = s.text.length > 1 && s.text.endsWith(s.text[0]);
+    return s.start < cursor && (cursor < s.end || (cursor === s.end && !closed));
+  });
+
+// --- Completion ---
+
+export type CompletionKind = 'keyword' | 'collection' | 'field' | 'function' | 'operator' | 'snippet';
+
+export interface CompletionItem {
+  label: string;
+  insert: string;
+  kind: CompletionKind;
+  detail?: string;
+  caret?: number; // Caret offset within `insert` after accepting; defaults to its end
+}
+
+export interface CompletionSource {
+  collections: string[];
+  fields: Record<string, string[]>; // Known field paths by collection path
+}
+
+export type CompletionContext = 'statement' | 'collection' | 'operator' | 'operand' | 'clause';
+
+export interface Completions {
+  from: number; // Start of the word being completed
+  context: CompletionContext;
+  items: CompletionItem[];
+}
+
+const MAX_COMPLETIONS = 50;
+
+// '|' marks where the caret goes after inserting
+const withCaret = (label: string, kind: CompletionKind, template: string, detail?: string): CompletionItem => {
+  const caret = template.indexOf('|');
+  return { label, kind, detail, insert: template.replace('|', ''), caret: caret === -1 ? undefined : caret };
+};
+
+const STATEMENT_ITEMS: CompletionItem[] = [
+  withCaret('SELECT * FROM', 'snippet', 'SELECT * FROM |', 'Read documents'),
+  withCaret('SELECT … WHERE … LIMIT', 'snippet', 'SELECT * FROM | WHERE  LIMIT 50', 'Filtered read'),
+  withCaret('INSERT INTO … JSON', 'snippet', 'INSERT INTO | JSON {}', 'Add a document'),
+  withCaret('UPDATE … SET … WHERE', 'snippet', "UPDATE | SET  WHERE id = ''", 'Change documents'),
+  withCaret('DELETE FROM … WHERE', 'snippet', "DELETE FROM | WHERE id = ''", 'Remove documents'),
+  withCaret('BEGIN … COMMIT', 'snippet', 'BEGIN;\n|\nCOMMIT;', 'Transaction'),
+  ...['SELECT', 'INSERT INTO', 'UPSERT INTO', 'UPDATE', 'DELETE FROM', 'PREVIEW', 'EXPLAIN', 'LIVE SELECT', 'BEGIN', 'COMMIT', 'ROLLBACK']
+    .map(word => withCaret(word, 'keyword', `${word} `)),
+];
+
+const OPERATOR_ITEMS: CompletionItem[] = [
+  ['=', '= '], ['!=', '!= '], ['<', '< '], ['<=', '<= '], ['>', '> '], ['>=', '>= '],
+  ['IN', 'IN (|)'], ['NOT IN', 'NOT IN (|)'], ['LIKE', "LIKE '|'"], ['NOT LIKE', "NOT LIKE '|'"],
+  ['ILIKE', "ILIKE '|'"], ['REGEXP', "REGEXP '|'"], ['ARRAY_CONTAINS', 'ARRAY_CONTAINS '],
+  ['ARRAY_CONTAINS_ANY', 'ARRAY_CONTAINS_ANY (|)'],
+].map(([label, template]) => withCaret(label, 'operator', template));
+
+// Keywords that may follow a complete item, by the clause it is in
+const CLAUSE_KEYWORDS: Record<string, string[]> = {
+  SELECT: ['FROM', 'AS'],
+  FROM: ['WHERE', 'JOIN', 'LEFT JOIN', 'AS', 'ORDER BY', 'GROUP BY', 'LIMIT', 'OFFSET'],
+  JOIN: ['ON', 'AS', 'JOIN', 'LEFT JOIN', 'WHERE'],
+  WHERE: ['AND', 'OR', 'ORDER BY', 'GROUP BY', 'LIMIT', 'OFFSET', 'SCAN LIMIT'],
+  ON: ['WHERE', 'JOIN', 'LEFT JOIN', 'ORDER BY', 'LIMIT'],
+  HAVING: ['AND', 'OR', 'ORDER BY', 'LIMIT'],
+  BY: ['ASC', 'DESC', 'HAVING', 'LIMIT', 'OFFSET', 'SCAN LIMIT'],
+  LIMIT: ['OFFSET', 'SCAN LIMIT'],
+  OFFSET: ['LIMIT', 'SCAN LIMIT'],
+  INTO: ['ID', 'JSON', 'VALUES', 'ON CONFLICT MERGE'],
+  VALUES: ['ON CONFLICT MERGE'],
+  UPDATE: ['SET'],
+  SET: ['WHERE', 'JSON'],
+};
+
+const CLAUSES = new Set(Object.keys(CLAUSE_KEYWORDS));
+
+// Positions where a field, function or value comes next
+const OPERAND_KEYWORDS = new Set(['SELECT', 'DISTINCT', 'WHERE', 'AND', 'OR', 'NOT', 'BY', 'SET', 'ON', 'HAVING']);
+const VALUE_KEYWORDS = new Set(['IN', 'LIKE', 'ILIKE', 'REGEXP', 'ARRAY_CONTAINS', 'ARRAY_CONTAINS_ANY']);
+const COMPARISONS = new Set(['=', '==', '!=', '<>', '<', '<=', '>', '>=']);
+const TABLE_KEYWORDS = new Set(['FROM', 'INTO', 'UPDATE', 'JOIN']);
+
+const isName = (span: Span | undefined) => span?.kind === 'identifier' || span?.kind === 'string';
+const nameOf = (span: Span) => (span.text[0] === '`' || span.kind === 'string' ? span.text.slice(1, -1) : span.text);
+const lastSegment = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+type Table = { collection: string; alias?: string };
+
+// The collections a statement reads or writes, with their aliases
+const tablesOf = (spans: Span[]): Table[] => {
+  const tables: Table[] = [];
+  spans.forEach((span, i) => {
+    if (!TABLE_KEYWORDS.has(upper(span))) return;
+    let j = upper(span) === 'FROM' && upper(spans[i + 1]) === 'GROUP' ? i + 2 : i + 1;
+    const segments: string[] = [];
+    while (isName(spans[j])) {
+      segments.push(nameOf(spans[j]));
+      j++;
+      if (spans[j]?.text !== '/') break;
+      j++;
+    }
+    if (segments.length === 0) return;
+    if (upper(spans[j]) === 'AS') j++;
+    tables.push({ collection: segments.join('/'), alias: spans[j]?.kind === 'identifier' ? nameOf(spans[j]) : undefined });
+  });
+  return tables;
+};
+
+const fieldsOf = (table: Table, source: CompletionSource) =>
+  ['id', ...(source.fields[table.collection] ?? source.fields[lastSegment(table.collection)] ?? []).filter(f => f !== 'id')];
+
+const fieldItems = (tables: Table[], source: CompletionSource): CompletionItem[] => {
+  const field = (insert: string, collection: string): CompletionItem => ({ label: insert, insert, kind: 'field', detail: collection });
+  if (tables.length === 0) return [];
+  const [base] = tables;
+  const items = fieldsOf(base, source).map(f => field(f, base.collection));
+  // With several tables, offer every field qualified by its alias too
+  if (tables.length > 1) {
+    for (const table of tables) {
+      const alias = table.alias ?? lastSegment(table.collection);
+      items.push(...fieldsOf(table, source).map(f => field(`${alias}.${f}`, table.collection)));
+    }
+  }
+  return items;
+};
+
+const functionItems = (): CompletionItem[] =>
+  Object.entries(FUNCTION_SIGNATURES).map(([name, signature]) =>
+    withCaret(name, 'function', signature.endsWith('()') ? `${name}()` : `${name}(|)`, signature));
+
+const keywordItems = (words: string[]) => words.map(word => withCaret(word, 'keyword', `${word} `));
+
+// The clause the cursor is in: the last clause keyword before it
+const clauseOf = (spans: Span[]) => {
+  for (let i = spans.length - 1; i >= 0; i--) {
+    const word = upper(spans[i]);
+    if (word === 'GROUP' && upper(spans[i - 1]) === 'FROM') return 'FROM';
+    if (CLAUSES.has(word)) return word;
+  }
+  return '';
+};
+
+const contextOf = (spans: Span[]): CompletionContext => {
+  const prev = spans[spans.length - 1];
+  const before = spans[spans.length - 2];
+  if (!prev) return 'statement';
+
+  const word = upper(prev);
+  if (TABLE_KEYWORDS.has(word) || (word === 'GROUP' && upper(before) === 'FROM')) return 'collection';
+  if (OPERAND_KEYWORDS.has(word) || VALUE_KEYWORDS.has(word)) return 'operand';
+  if (prev.kind === 'punct') {
+    if (prev.text === '*' && (['SELECT', 'DISTINCT'].includes(upper(before)) || before?.text === ',')) return 'clause';
+    return prev.text === ')' || prev.text === ']' || prev.text === '}' ? 'clause' : 'operand';
+  }
+
+  // A field that starts a condition is followed by an operator
+  const conditional = ['WHERE', 'ON', 'HAVING'].includes(clauseOf(spans));
+  const startsPredicate = ['WHERE', 'AND', 'OR', 'NOT', 'ON', 'HAVING'].includes(upper(before)) || before?.text === '(';
+  if (prev.kind === 'identifier' && conditional && startsPredicate) return 'operator';
+  return 'clause';
+};
+
+const itemsFor = (context: CompletionContext, spans: Span[], source: CompletionSource): CompletionItem[] => {
+  switch (context) {
+    case 'statement':
+      return STATEMENT_ITEMS;
+    case 'collection':
+      return source.collections.map(name => ({ label: name, insert: `${name} `, kind: 'collection' as const }));
+    case 'operator':
+      return OPERATOR_ITEMS;
+    case 'operand': {
+      const prev = spans[spans.length - 1];
+      const items = [...fieldItems(tablesOf(spans), source), ...functionItems()];
+      if (upper(prev) === 'SELECT') items.unshift(withCaret('*', 'keyword', '* '), withCaret('DISTINCT', 'keyword', 'DISTINCT '));
+      if (COMPARISONS.has(prev.text) || VALUE_KEYWORDS.has(upper(prev))) items.push(...keywordItems(['TRUE', 'FALSE', 'NULL']));
+      return items;
+    }
+    default:
+      return keywordItems(CLAUSE_KEYWORDS[clauseOf(spans)] ?? ['WHERE', 'AND', 'OR', 'ORDER BY', 'LIMIT']);
+  }
+};
+
+export const getCompletions = (text: string, cursor: number, source: CompletionSource): Completions => {
+  let from = cursor;
+  while (from > 0 && /[\w$./]/.test(text[from - 1])) from--;
+
+  const spans = scanSpans(text);
+  if (isInsideText(spans, cursor)) return { from, context: 'clause', items: [] };
+
+  const statement = statementBefore(spans, from);
+  const context = contextOf(statement);
+  const word = text.slice(from, cursor);
+  const prefix = word.toLowerCase();
+  const items = itemsFor(context, statement, source)
+    .filter(item => item.label.toLowerCase().startsWith(prefix) && item.insert.trim() !== word)
+    .slice(0, MAX_COMPLETIONS);
+  return { from, context, items };
+};
+
+// --- Signature hints ---
+
+const STATEMENT_SIGNATURES: Record<string, string> = {
+  SELECT: 'SELECT [DISTINCT] * | field [AS alias], ... FROM [GROUP] path [alias] [[LEFT] JOIN path alias ON field = alias.id] ' +
+    '[WHERE condition] [GROUP BY field, ...] [HAVING condition] [ORDER BY field [ASC|DESC], ...] [LIMIT n | ALL] [OFFSET n] [SCAN LIMIT n]',
+  INSERT: "INSERT INTO path [ID 'docId'] JSON {...} | JSON [{...}, ...] | (field, ...) VALUES (value, ...), ... [ON CONFLICT MERGE]",
+  UPSERT: "UPSERT INTO path [ID 'docId'] JSON {...} | JSON [{...}, ...] | (field, ...) VALUES (value, ...), ...",
+  UPDATE: 'UPDATE path SET JSON {...} | field = expr, ... WHERE condition',
+  DELETE: 'DELETE FROM path WHERE condition',
+  PREVIEW: 'PREVIEW UPDATE ... | DELETE ... — shows affected documents without writing',
+  EXPLAIN: 'EXPLAIN SELECT ... | EXPLAIN WRITE UPDATE ... | DELETE ...',
+  LIVE: 'LIVE SELECT ... — keeps listening for changes',
+  BEGIN: 'BEGIN [TRANSACTION]; statement; ... COMMIT | ROLLBACK',
+};
+
+export interface SignatureHint {
+  kind: 'function' | 'statement';
+  text: string;
+  active?: [number, number]; // Offsets of the argument being typed within text
+}
+
+// Offsets of the index-th parameter in 'NAME(a, b, ...)'
+const parameterRange = (signature: string, index: number): [number, number] | undefined => {
+  const open = signature.indexOf('(');
+  const params = signature.slice(open + 1, -1).split(', ').filter(Boolean);
+  const variadic = params[params.length - 1] === '...';
+  const target = variadic && index >= params.length - 1 ? params.length - 2 : index;
+  if (target < 0 || target >= params.length) return undefined;
+  const start = open + 1 + params.slice(0, target).reduce((n, p) => n + p.length + 2, 0);
+  return [start, start + params[target].length];
+};
+
+// The innermost function call the cursor is in, else the current statement's syntax
+export const signatureHint = (text: string, cursor: number): SignatureHint | undefined => {
+  const spans = statementBefore(scanSpans(text), cursor);
+  const calls: { name?: string; args: number }[] = [];
+  spans.forEach((span, i) => {
+    if (span.kind !== 'punct') return;
+    if (span.text === '(') calls.push({ name: spans[i - 1]?.kind === 'function' ? spans[i - 1].text.toUpperCase() : undefined, args: 0 });
+    else if (span.text === ')') calls.pop();
+    else if (span.text === ',' && calls.length > 0) calls[calls.length - 1].args++;
+  });
+
+  const call = [...calls].reverse().find(c => c.name);
+  if (call) {
+    const signature = FUNCTION_SIGNATURES[call.name!];
+    return { kind: 'function', text: signature, active: parameterRange(signature, call.args) };
+  }
+  const signature = STATEMENT_SIGNATURES[upper(spans[0])];
+  return signature ? { kind: 'statement', text: signature } : undefined;
+};
+
+// --- Bracket matching ---
+
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+// The bracket next to the cursor and its partner (undefined when unbalanced).
+// Brackets inside strings and comments are ignored.
+export const matchBracket = (text: string, cursor: number): { at: number; match?: number } | undefined => {
+  const brackets = scanSpans(text).filter(s => s.kind === 'punct' && s.text.length === 1 && '()[]{}'.includes(s.text));
+  let index = brackets.findIndex(b => b.start === cursor - 1);
+  if (index === -1) index = brackets.findIndex(b => b.start === cursor);
+  if (index === -1) return undefined;
+
+  const bracket = brackets[index];
+  const opening = bracket.text in PAIRS;
+  let depth = 0;
+  for (let i = index; i >= 0 && i < brackets.length; i += opening ? 1 : -1) {
+    depth += (brackets[i].text in PAIRS) === opening ? 1 : -1;
+    if (depth === 0) {
+      const [open, close] = opening ? [bracket, brackets[i]] : [brackets[i], bracket];
+      return { at: bracket.start, match: PAIRS[open.text] === close.text ? brackets[i].start : undefined };
+    }
+  }
+  return { at: bracket.start };
+};
+
+// --- Field names ---
+
+const MAX_FIELD_DEPTH = 3;
+
+// Field paths of fetched rows, nested maps included: name, address, address.city
+export const fieldPathsOf = (rows: Record<string, any>[]): string[] => {
+  const paths = new Set<string>();
+  const visit = (value: Record<string, any>, prefix: string, depth: number) => {
+    for (const [key, v] of Object.entries(value)) {
+      if (depth === 0 && (key === 'id' || key === PATH_COLUMN)) continue;
+      paths.add(prefix + key);
+      if (depth < MAX_FIELD_DEPTH && valueType(v) === 'map') visit(v, `${prefix}${key}.`, depth + 1);
+    }
+  };
+  rows.forEach(row => visit(row, '', 0));
+  return Array.from(paths);
+};
+
+export const schemaPaths = (schema: CollectionSchema): string[] => {
+  const walk = (fields: SchemaField[]): string[] => fields.flatMap(f => [f.path, ...(f.children ? walk(f.children) : [])]);
+  return walk(schema.fields);
+};
@@ -0,0 +1,159 @@
+import { DiagnosticCode } from '../types';
+import { syntaxError } from './diagnostics';
+
+/**
+ * Tokenizer for the FireSQL dialect.
+ *
+ * Keywords are not distinguished from identifiers here; the parser matches
+ * them case-insensitively by position, so fields named e.g. `status` or
+ * `count` never clash with the grammar.
+ */
+
+export type TokenType = 'identifier' | 'quotedIdentifier' | 'string' | 'number' | 'punct' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  start: number; // Offset of the first character in the source
+  end: number;   // Offset just past the last character
+}
+
+const MULTI_CHAR_PUNCT = ['==', '!=', '<>', '<=', '>='];
+const SINGLE_CHAR_PUNCT = '=<>,(){}[]:;*./-+';
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '0': '\0',
+};
+
+const isIdentStart = (ch: string) => /[A-Za-z_$]/.test(ch);
+const isIdentPart = (ch: string) => /[A-Za-z0-9_$]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const fail = (code: DiagnosticCode, message: string, start: number, end: number): never => {
+    throw syntaxError(source, code, message, start, end);
+  };
+
+  // Reads a quoted run starting at `pos` (which holds the quote character).
+  // Supports backslash escapes and SQL-style doubled quotes.
+  const readQuoted = (quote: string): string => {
+    const start = pos;
+    pos++;
+    let out = '';
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === quote) {
+        if (source[pos + 1] === quote) {
+          out += quote;
+          pos += 2;
+          continue;
+        }
+        pos++;
+        return out;
+      }
+      if (ch === '\\' && quote !== '`') {
+        const next = source[pos + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = source.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('INVALID_ESCAPE', `invalid unicode escape '\\u${hex}'`, pos, pos + 2 + hex.length);
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        out += ESCAPES[next] ?? next;
+        pos += 2;
+        continue;
+      }
+      out += ch;
+      pos++;
+    }
+    return fail('UNTERMINATED_STRING', `unterminated ${quote === '`' ? 'quoted identifier' : 'string'}`, start, source.length);
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    // Line comment: -- ...
+    if (ch === '-' && source[pos + 1] === '-') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+
+    // Block comment: /* ... */
+    if (ch === '/' && source[pos + 1] === '*') {
+      const close = source.indexOf('*/', pos + 2);
+      if (close === -1) fail('UNTERMINATED_COMMENT', 'unterminated comment', pos, source.length);
+      pos = close + 2;
+      continue;
+    }
+
+    const start = pos;
+
+    if (ch === "'" || ch === '"') {
+      const value = readQuoted(ch);
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (ch === '`') {
+      const value = readQuoted(ch);
+      tokens.push({ type: 'quotedIdentifier', value, start, end: pos });
+      continue;
+    }
+
+    if (isDigit(ch)) {
+      while (isDigit(source[pos] ?? '')) pos++;
+      if (source[pos] === '.' && isDigit(source[pos + 1] ?? '')) {
+        pos++;
+        while (isDigit(source[pos] ?? '')) pos++;
+      }
+      // An exponent needs a digit after the optional sign; '1e+' stops before the 'e'
+      const sign = /[+-]/.test(source[pos + 1] ?? '') ? 1 : 0;
+      if (/[eE]/.test(source[pos] ?? '') && isDigit(source[pos + 1 + sign] ?? '')) {
+        pos += 1 + sign;
+        while (isDigit(source[pos] ?? '')) pos++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      while (pos < source.length && isIdentPart(source[pos])) pos++;
+      tokens.push({ type: 'identifier', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    const pair = source.slice(pos, pos + 2);
+    if (MULTI_CHAR_PUNCT.includes(pair)) {
+      pos += 2;
+      tokens.push({ type: 'punct', value: pair, start, end: pos });
+      continue;
+    }
+
+    if (SINGLE_CHAR_PUNCT.includes(ch)) {
+      pos++;
+      tokens.push({ type: 'punct', value: ch, start, end: pos });
+      continue;
+    }
+
+    fail('UNEXPECTED_CHARACTER', `unexpected character '${ch}'`, pos, pos + 1);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+};
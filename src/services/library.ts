@@ -0,0 +1,86 @@
+import { newLocalId } from './ids';
+import { ParameterType, QueryParameter, SavedQuery } from '../types';
+
+/**
+ * Saved-queries library files: a JSON list of named queries meant to be kept
+ * in version control, so local IDs and edit times are left out and entries are
+ * sorted by folder and name for stable diffs. On import, an entry replaces the
+ * saved query with the same folder and name.
+ */
+
+const PARAMETER_TYPES: ParameterType[] = ['string', 'number', 'boolean', 'timestamp'];
+
+const sameEntry = (a: Pick<SavedQuery, 'folder' | 'name'>, b: Pick<SavedQuery, 'folder' | 'name'>) =>
+  (a.folder ?? '') === (b.folder ?? '') && a.name === b.name;
+
+export const sortSavedQueries = (queries: SavedQuery[]) =>
+  queries.slice().sort((a, b) => (a.folder ?? '').localeCompare(b.folder ?? '') || a.name.localeCompare(b.name));
+
+// Folder names in use, sorted
+export const folderNames = (queries: SavedQuery[]) =>
+  Array.from(new Set(queries.map(q => q.folder ?? '').filter(Boolean))).sort();
+
+// Another saved query with the same folder and name, which `query` would shadow
+export const findDuplicate = (queries: SavedQuery[], query: SavedQuery) =>
+  queries.find(q => q.id !== query.id && sameEntry(q, query));
+
+export const libraryFile = (queries: SavedQuery[]) => {
+  const entries = sortSavedQueries(queries).map(({ name, folder, description, query, parameters }) => ({
+    name,
+    ...(folder ? { folder } : {}),
+    ...(description ? { description } : {}),
+    query,
+    ...(parameters?.length ? { parameters } : {}),
+  }));
+  return JSON.stringify({ version: 1, queries: entries }, null, 2) + '\n';
+};
+
+const parseParameter = (param: any, entry: number): QueryParameter => {
+  if (typeof param?.name !== 'string' || !PARAMETER_TYPES.includes(param.type)) {
+    throw new Error(`Query ${entry}: each parameter needs a 'name' and a 'type' (${PARAMETER_TYPES.join(', ')}).`);
+  }
+  return { name: param.name, type: param.type, value: param.value === undefined ? '' : String(param.value) };
+};
+
+// Accepts an exported library file, or a bare array of entries
+export const parseLibraryFile = (text: string): SavedQuery[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : parsed?.queries;
+  if (!Array.isArray(entries)) throw new Error("Expected a saved-queries file with a 'queries' array.");
+
+  const now = Date.now();
+  return entries.map((entry: any, i: number): SavedQuery => {
+    if (typeof entry?.name !== 'string' || !entry.name.trim() || typeof entry.query !== 'string') {
+      throw new Error(`Query ${i + 1} needs a 'name' and a 'query' string.`);
+    }
+    if (entry.parameters !== undefined && !Array.isArray(entry.parameters)) {
+      throw new Error(`Query ${i + 1}: 'parameters' must be an array.`);
+    }
+    return {
+      id: newLocalId(),
+      name: entry.name.trim(),
+      query: entry.query,
+      folder: typeof entry.folder === 'string' ? entry.folder.trim() : '',
+      description: typeof entry.description === 'string' ? entry.description : '',
+      parameters: entry.parameters?.map((p: any) => parseParameter(p, i + 1)),
+      updatedAt: now,
+    };
+  });
+};
+
+// Imported entries replace saved queries with the same folder and name
+export const mergeLibrary = (existing: SavedQuery[], imported: SavedQuery[]): SavedQuery[] => {
+  const merged = existing.slice();
+  for (const entry of imported) {
+    const index = merged.findIndex(q => sameEntry(q, entry));
+    if (index === -1) merged.push(entry);
+    else merged[index] = { ...entry, id: merged[index].id };
+  }
+  return merged;
+};
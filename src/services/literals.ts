@@ -0,0 +1,91 @@
+import {
+  Timestamp,
+  GeoPoint,
+  serverTimestamp,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  deleteField
+} from 'firebase/firestore';
+import { ValueFunction } from './ast';
+import { documentRef } from './firebaseService';
+
+/**
+ * Evaluates FireSQL value functions into Firestore values.
+ *
+ * TIMESTAMP, GEOPOINT and REF build typed values and work anywhere a value is
+ * accepted. INCREMENT, DELETE_FIELD, ARRAY_UNION and ARRAY_REMOVE are write
+ * sentinels and only make sense in INSERT/UPDATE data. NOW() is the server
+ * timestamp when writing and the current client time when filtering.
+ */
+
+// 'filter' for WHERE/HAVING values, 'write' for INSERT/UPDATE data
+export type ValueMode = 'filter' | 'write';
+
+const WRITE_ONLY: ValueFunction[] = ['increment', 'delete_field', 'array_union', 'array_remove'];
+
+export interface SentinelInfo {
+  fn: ValueFunction;
+  args: any[];
+}
+
+// Sentinels are opaque FieldValues; remember what built them so previews can show their effect
+const sentinels = new WeakMap<object, SentinelInfo>();
+
+export const sentinelOf = (value: any): SentinelInfo | undefined =>
+  value !== null && typeof value === 'object' ? sentinels.get(value) : undefined;
+
+const sentinel = (value: object, fn: ValueFunction, args: any[]) => {
+  sentinels.set(value, { fn, args });
+  return value;
+};
+
+const toTimestamp = (arg: any) => {
+  if (typeof arg === 'number') return Timestamp.fromMillis(arg);
+  const date = typeof arg === 'string' ? new Date(arg) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`TIMESTAMP(${JSON.stringify(arg)}) needs an ISO-8601 date string or epoch milliseconds.`);
+  }
+  return Timestamp.fromDate(date);
+};
+
+const toGeoPoint = (lat: any, lng: any) => {
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new Error(`GEOPOINT(${lat}, ${lng}) needs a latitude in [-90, 90] and a longitude in [-180, 180].`);
+  }
+  return new GeoPoint(lat, lng);
+};
+
+const toReference = (path: any) => {
+  const segments = typeof path === 'string' ? path.split('/').filter(Boolean) : [];
+  if (segments.length === 0 || segments.length % 2 !== 0) {
+    throw new Error(`REF(${JSON.stringify(path)}) must name a document, e.g. REF('users/abc123').`);
+  }
+  return documentRef(segments.join('/'));
+};
+
+export const evaluateCall = (fn: ValueFunction, args: any[], mode: ValueMode): any => {
+  if (mode === 'filter' && WRITE_ONLY.includes(fn)) {
+    throw new Error(`${fn.toUpperCase()}() can only be used in INSERT or UPDATE values.`);
+  }
+
+  switch (fn) {
+    case 'timestamp':
+      return toTimestamp(args[0]);
+    case 'geopoint':
+      return toGeoPoint(args[0], args[1]);
+    case 'ref':
+      return toReference(args[0]);
+    case 'now':
+      return mode === 'write' ? sentinel(serverTimestamp(), fn, args) : Timestamp.now();
+    case 'increment':
+      if (typeof args[0] !== 'number') throw new Error("INCREMENT() needs a number.");
+      return sentinel(increment(args[0]), fn, args);
+    case 'delete_field':
+      return sentinel(deleteField(), fn, args);
+    case 'array_union':
+      return sentinel(arrayUnion(...args), fn, args);
+    case 'array_remove':
+      return sentinel(arrayRemove(...args), fn, args);
+  }
+};
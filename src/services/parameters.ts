@@ -0,0 +1,95 @@
+import { Timestamp } from 'firebase/firestore';
+import { ParameterNode, ScriptItem, ValueNode } from './ast';
+import { parseScript } from './parser';
+import { QueryParameter } from '../types';
+
+/**
+ * Query parameters: `:name` and `$1` placeholders in value positions.
+ *
+ * Values are bound into the parsed statement as typed value nodes, never
+ * spliced into the query text, so they need no quoting or escaping.
+ */
+
+export type ParamValue = string | number | boolean | null | Date | Timestamp;
+
+// Keyed by parameter name: { userId: 'abc' } for :userId, { 1: 42 } for $1
+export type QueryParams = Record<string, ParamValue>;
+
+export const parameterLabel = (name: string) => (/^\d+$/.test(name) ? `$${name}` : `:${name}`);
+
+// Copies an AST, replacing every parameter node with `replace(node)`
+const mapParameters = (node: any, replace: (param: ParameterNode) => ValueNode): any => {
+  if (Array.isArray(node)) return node.map(item => mapParameters(item, replace));
+  if (node === null || typeof node !== 'object') return node;
+  if (node.kind === 'parameter') return replace(node);
+
+  const copy: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node)) {
+    copy[key] = mapParameters(value, replace);
+  }
+  return copy;
+};
+
+const toValueNode = (name: string, value: ParamValue): ValueNode => {
+  if (value instanceof Date || value instanceof Timestamp) {
+    const millis = value instanceof Date ? value.getTime() : value.toMillis();
+    if (isNaN(millis)) throw new Error(`Parameter ${parameterLabel(name)} is not a valid date.`);
+    return { kind: 'call', fn: 'timestamp', args: [{ kind: 'literal', value: millis }] };
+  }
+  return { kind: 'literal', value };
+};
+
+export const bindParameters = <T>(node: T, params: QueryParams): T =>
+  mapParameters(node, param => {
+    const value = params[param.name];
+    if (value === undefined) throw new Error(`No value given for parameter ${parameterLabel(param.name)}.`);
+    return toValueNode(param.name, value);
+  });
+
+// Parameter names in order of first use
+export const listParameters = (items: ScriptItem[]): string[] => {
+  const names = new Set<string>();
+  mapParameters(items, param => {
+    names.add(param.name);
+    return param;
+  });
+  return Array.from(names);
+};
+
+// Parameters of the editor text, or undefined while it does not parse
+export const findParameters = (source: string): string[] | undefined => {
+  try {
+    return listParameters(parseScript(source));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const parseFormValue = ({ name, type, value }: QueryParameter): ParamValue => {
+  const label = parameterLabel(name);
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number': {
+      const num = Number(value);
+      if (!value.trim() || isNaN(num)) throw new Error(`Parameter ${label} needs a number, got '${value}'.`);
+      return num;
+    }
+    case 'boolean':
+      return value === 'true';
+    case 'timestamp': {
+      const date = new Date(value);
+      if (!value.trim() || isNaN(date.getTime())) throw new Error(`Parameter ${label} needs a date, got '${value}'.`);
+      return date;
+    }
+  }
+};
+
+// Converts the parameters form into typed values for runQuery/runScript
+export const toQueryParams = (fields: QueryParameter[]): QueryParams => {
+  const params: QueryParams = {};
+  for (const field of fields) {
+    params[field.name] = parseFormValue(field);
+  }
+  return params;
+};
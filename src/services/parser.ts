@@ -0,0 +1,829 @@
+import { tokenize, Token } from './lexer';
+import { syntaxError } from './diagnostics';
+import {
+  AggregateFunction,
+  ArrayNode,
+  Assignment,
+  CallNode,
+  ComparisonOp,
+  ConditionNode,
+  DeleteStatement,
+  ExpressionNode,
+  InsertStatement,
+  JoinClause,
+  InsertRow,
+  MatchOp,
+  ObjectNode,
+  OrderByItem,
+  ParameterNode,
+  ProjectionItem,
+  ScalarFunction,
+  ScriptItem,
+  ScriptStatement,
+  SelectStatement,
+  Statement,
+  UpdateStatement,
+  ValueFunction,
+  ValueNode,
+} from './ast';
+
+/**
+ * Recursive-descent parser for the FireSQL dialect.
+ *
+ * Grammar (keywords are case-insensitive, a trailing ';' is optional):
+ *
+ *   script     := item (';' item)*
+ *   item       := statement | transaction
+ *   transaction:= BEGIN [TRANSACTION] ';' (statement ';')* (COMMIT | ROLLBACK)
+ *   statement  := [LIVE] select | insert | update | delete | preview
+ *   select     := SELECT [DISTINCT] projection FROM [GROUP] path [[AS] alias] join* [WHERE condition]
+ *                 [GROUP BY field (',' field)*] [HAVING condition]
+ *                 [ORDER BY field [ASC|DESC] (',' field [ASC|DESC])*]
+ *                 [LIMIT number | LIMIT ALL] [OFFSET number] [SCAN LIMIT number]
+ *                 -- LIMIT/OFFSET/SCAN LIMIT in any order
+ *   join       := [INNER | LEFT [OUTER]] JOIN path [[AS] alias] ON field '=' alias '.' id
+ *                 -- either side of '=' may name the joined document's id
+ *   projection := '*' | item [[AS] alias] (',' item [[AS] alias])*
+ *   item       := field | aggregate
+ *   aggregate  := COUNT '(' ('*' | field) ')' | (SUM | AVG | MIN | MAX) '(' field ')'
+ *   insert     := (INSERT | UPSERT) INTO path
+ *                 ( [ID (string | number)] JSON object
+ *                 | JSON '[' object (',' object)* ']'
+ *                 | '(' field (',' field)* ')' VALUES row (',' row)* )
+ *                 [ON CONFLICT MERGE]
+ *   row        := '(' value (',' value)* ')'     -- an `id` column sets the document ID
+ *   update     := UPDATE path SET (JSON object | assignment (',' assignment)*) WHERE condition
+ *   assignment := field '=' expr
+ *   expr       := term (('+' | '-') term)*
+ *   term       := unary (('*' | '/') unary)*
+ *   unary      := '-' unary | '(' expr ')' | scalar '(' [expr (',' expr)*] ')' | value | field
+ *   scalar     := LOWER | UPPER | TRIM | LENGTH | CONCAT | COALESCE | ABS | ROUND
+ *               | CONTAINS | YEAR | MONTH | DAY | DATE
+ *   delete     := DELETE FROM path WHERE condition
+ *   preview    := (PREVIEW | EXPLAIN WRITE) (update | delete) | EXPLAIN select
+ *   condition  := conjunction (OR conjunction)*
+ *   conjunction:= predicate (AND predicate)*
+ *   predicate  := '(' condition ')'
+ *               | operand compareOp value
+ *               | aggregate compareOp value             -- HAVING only
+ *               | operand [NOT] IN list
+ *               | operand [NOT] (LIKE | ILIKE | REGEXP) value   -- WHERE only
+ *               | field ARRAY_CONTAINS value
+ *               | field ARRAY_CONTAINS_ANY list
+ *               | CONTAINS '(' expr ',' expr ')'        -- WHERE only
+ *   operand    := field | scalar '(' ... ')' [expr]   -- functions are WHERE only
+ *   list       := '(' value (',' value)* ')' | '[' value (',' value)* ']'
+ *   path       := segment ('/' segment)*   -- or a quoted string; an even number
+ *                                           -- of segments in FROM reads one document
+ *   field      := name ('.' name)*
+ *   value      := string | number | TRUE | FALSE | NULL | object | array | call | param
+ *   param      := ':' name | '$' digits           -- bound when the statement runs
+ *   call       := TIMESTAMP '(' string | number ')' | GEOPOINT '(' number ',' number ')'
+ *               | REF '(' string ')' | NOW '(' ')' | INCREMENT '(' number ')'
+ *               | DELETE_FIELD '(' ')' | (ARRAY_UNION | ARRAY_REMOVE) '(' value (',' value)* ')'
+ */
+
+const COMPARISON_OPS: Record<string, ComparisonOp> = {
+  '=': '==',
+  '==': '==',
+  '!=': '!=',
+  '<>': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>=',
+};
+
+const AGGREGATES: Record<string, AggregateFunction> = {
+  COUNT: 'count',
+  SUM: 'sum',
+  AVG: 'avg',
+  MIN: 'min',
+  MAX: 'max',
+};
+
+// Value functions with their [min, max] argument counts
+const VALUE_FUNCTIONS: Record<string, { fn: ValueFunction; arity: [number, number] }> = {
+  TIMESTAMP: { fn: 'timestamp', arity: [1, 1] },
+  GEOPOINT: { fn: 'geopoint', arity: [2, 2] },
+  REF: { fn: 'ref', arity: [1, 1] },
+  NOW: { fn: 'now', arity: [0, 0] },
+  INCREMENT: { fn: 'increment', arity: [1, 1] },
+  DELETE_FIELD: { fn: 'delete_field', arity: [0, 0] },
+  ARRAY_UNION: { fn: 'array_union', arity: [1, Infinity] },
+  ARRAY_REMOVE: { fn: 'array_remove', arity: [1, Infinity] },
+};
+
+// Scalar functions usable in SET expressions and WHERE, with their [min, max] argument counts
+const SCALAR_FUNCTIONS: Record<string, { fn: ScalarFunction; arity: [number, number] }> = {
+  LOWER: { fn: 'lower', arity: [1, 1] },
+  UPPER: { fn: 'upper', arity: [1, 1] },
+  TRIM: { fn: 'trim', arity: [1, 1] },
+  LENGTH: { fn: 'length', arity: [1, 1] },
+  CONCAT: { fn: 'concat', arity: [1, Infinity] },
+  COALESCE: { fn: 'coalesce', arity: [1, Infinity] },
+  ABS: { fn: 'abs', arity: [1, 1] },
+  ROUND: { fn: 'round', arity: [1, 2] },
+  CONTAINS: { fn: 'contains', arity: [2, 2] },
+  YEAR: { fn: 'year', arity: [1, 1] },
+  MONTH: { fn: 'month', arity: [1, 1] },
+  DAY: { fn: 'day', arity: [1, 1] },
+  DATE: { fn: 'date', arity: [1, 1] },
+};
+
+const MATCH_OPS: Record<string, MatchOp> = {
+  LIKE: 'like',
+  ILIKE: 'ilike',
+  REGEXP: 'regexp',
+};
+
+const isMatchOp = (op: ComparisonOp | MatchOp): op is MatchOp => op === 'like' || op === 'ilike' || op === 'regexp';
+
+// Words that may follow FROM <path>; `FROM GROUP where` still means a collection named "group"
+const SELECT_CLAUSES = new Set(['WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'SCAN']);
+
+// Words that may follow a table in FROM and so cannot be read as its alias
+const TABLE_FOLLOWERS = new Set([...SELECT_CLAUSES, 'JOIN', 'INNER', 'LEFT', 'ON']);
+
+const describe = (token: Token) => {
+  switch (token.type) {
+    case 'eof': return 'end of query';
+    case 'string': return `string '${token.value}'`;
+    case 'number': return `number ${token.value}`;
+    case 'quotedIdentifier': return `\`${token.value}\``;
+    default: return `'${token.value}'`;
+  }
+};
+
+const createParser = (source: string) => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)];
+  const next = () => tokens[pos < tokens.length - 1 ? pos++ : pos];
+
+  const fail = (expected: string, token: Token = peek()): never => {
+    const found = describe(token);
+    throw syntaxError(source, 'UNEXPECTED_TOKEN', `expected ${expected}, found ${found}`, token.start, token.end, { expected, found });
+  };
+
+  const isWord = (word: string, token: Token = peek()) =>
+    token.type === 'identifier' && token.value.toUpperCase() === word;
+
+  const isPunct = (value: string, token: Token = peek()) =>
+    token.type === 'punct' && token.value === value;
+
+  const acceptWord = (word: string) => {
+    if (!isWord(word)) return false;
+    next();
+    return true;
+  };
+
+  const acceptPunct = (value: string) => {
+    if (!isPunct(value)) return false;
+    next();
+    return true;
+  };
+
+  const expectWord = (word: string) => {
+    if (!isWord(word)) fail(word);
+    return next();
+  };
+
+  const expectPunct = (value: string) => {
+    if (!isPunct(value)) fail(`'${value}'`);
+    return next();
+  };
+
+  // --- Names ---
+
+  const parseName = (): string => {
+    const token = peek();
+    if (token.type === 'identifier' || token.type === 'quotedIdentifier') {
+      next();
+      return token.value;
+    }
+    return fail('a field name');
+  };
+
+  const parseField = (): string => {
+    const parts = [parseName()];
+    while (acceptPunct('.')) {
+      parts.push(parseName());
+    }
+    return parts.join('.');
+  };
+
+  // Collection paths may contain '/', '-' and digits (e.g. users/abc-123/orders).
+  // Adjacent tokens with no whitespace between them are glued back together.
+  const parsePath = (): string => {
+    const first = peek();
+    if (first.type === 'string' || first.type === 'quotedIdentifier') {
+      next();
+      if (!first.value) fail('a collection name', first);
+      return first.value;
+    }
+
+    // Document IDs may contain '.' and '-' (users/john.doe); only unspaced tokens are joined
+    const isPathToken = (t: Token) =>
+      t.type === 'identifier' || t.type === 'number' || isPunct('/', t) || isPunct('-', t) || isPunct('.', t);
+
+    if (!isPathToken(first) || isPunct('/', first) || isPunct('.', first)) fail('a collection name');
+
+    let path = next().value;
+    let prev = first;
+    while (isPathToken(peek()) && peek().start === prev.end) {
+      prev = next();
+      path += prev.value;
+    }
+    if (path.endsWith('/')) fail('a path segment after \'/\'', peek());
+    return path;
+  };
+
+  // --- Values ---
+
+  const parseNumber = (negative: boolean): ValueNode => {
+    const token = peek();
+    if (token.type !== 'number') return fail('a number');
+    next();
+    const num = Number(token.value);
+    return { kind: 'literal', value: negative ? -num : num };
+  };
+
+  const parseObject = (): ObjectNode => {
+    expectPunct('{');
+    const entries: ObjectNode['entries'] = [];
+    if (!isPunct('}')) {
+      do {
+        const keyToken = peek();
+        if (keyToken.type !== 'string' && keyToken.type !== 'identifier' && keyToken.type !== 'quotedIdentifier') {
+          fail('an object key');
+        }
+        next();
+        expectPunct(':');
+        entries.push({ key: keyToken.value, value: parseValue() });
+      } while (acceptPunct(','));
+    }
+    expectPunct('}');
+    return { kind: 'object', entries };
+  };
+
+  const parseArray = (): ArrayNode => {
+    expectPunct('[');
+    const items: ValueNode[] = [];
+    if (!isPunct(']')) {
+      do {
+        items.push(parseValue());
+      } while (acceptPunct(','));
+    }
+    expectPunct(']');
+    return { kind: 'array', items };
+  };
+
+  // NAME '(' args ')' with an arity check against [min, max]
+  const parseArguments = <T>(name: string, [min, max]: [number, number], parseArg: () => T): T[] => {
+    const count = (n: number) => `${n} argument${n === 1 ? '' : 's'}`;
+
+    expectPunct('(');
+    const args: T[] = [];
+    if (!isPunct(')')) {
+      do {
+        if (args.length === max) fail(`')' (${name} takes ${count(max)})`);
+        args.push(parseArg());
+      } while (acceptPunct(','));
+    }
+    if (args.length < min) fail(`${min === max ? count(min) : `at least ${count(min)}`} for ${name}`);
+    expectPunct(')');
+    return args;
+  };
+
+  const parseCall = (): CallNode => {
+    const name = next().value.toUpperCase();
+    const { fn, arity } = VALUE_FUNCTIONS[name];
+    return { kind: 'call', fn, args: parseArguments(name, arity, parseValue) };
+  };
+
+  // `$1` lexes as an identifier; `:name` is a ':' directly followed by a name
+  const isParameter = () =>
+    (peek().type === 'identifier' && /^\$[1-9]\d*$/.test(peek().value)) ||
+    (isPunct(':') && peek(1).type === 'identifier' && peek(1).start === peek().end);
+
+  const parseParameter = (): ParameterNode => {
+    if (acceptPunct(':')) return { kind: 'parameter', name: next().value };
+    return { kind: 'parameter', name: next().value.slice(1) };
+  };
+
+  const parseValue = (): ValueNode => {
+    const token = peek();
+
+    if (token.type === 'string') {
+      next();
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'number') return parseNumber(false);
+    if (acceptPunct('-')) return parseNumber(true);
+    if (acceptWord('TRUE')) return { kind: 'literal', value: true };
+    if (acceptWord('FALSE')) return { kind: 'literal', value: false };
+    if (acceptWord('NULL')) return { kind: 'literal', value: null };
+    if (isPunct('{')) return parseObject();
+    if (isPunct('[')) return parseArray();
+    if (isParameter()) return parseParameter();
+    if (token.type === 'identifier' && token.value.toUpperCase() in VALUE_FUNCTIONS && isPunct('(', peek(1))) {
+      return parseCall();
+    }
+    if (token.type === 'identifier') {
+      return fail(`a value (quote string values, e.g. '${token.value}')`);
+    }
+    return fail('a value');
+  };
+
+  // --- Expressions ---
+
+  const isCallTo = (table: Record<string, unknown>) =>
+    peek().type === 'identifier' && peek().value.toUpperCase() in table && isPunct('(', peek(1));
+
+  const parseUnary = (): ExpressionNode => {
+    if (acceptPunct('-')) {
+      const operand = parseUnary();
+      if (operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { kind: 'literal', value: -operand.value };
+      }
+      return { kind: 'negate', operand };
+    }
+    if (acceptPunct('(')) {
+      const inner = parseExpression();
+      expectPunct(')');
+      return inner;
+    }
+    if (isCallTo(SCALAR_FUNCTIONS)) {
+      const name = next().value.toUpperCase();
+      const { fn, arity } = SCALAR_FUNCTIONS[name];
+      return { kind: 'scalar', fn, args: parseArguments(name, arity, parseExpression) };
+    }
+    const token = peek();
+    const isKeywordValue = isWord('TRUE') || isWord('FALSE') || isWord('NULL') || isCallTo(VALUE_FUNCTIONS) || isParameter();
+    if ((token.type === 'identifier' && !isKeywordValue) || token.type === 'quotedIdentifier') {
+      return { kind: 'fieldRef', path: parseField() };
+    }
+    return parseValue();
+  };
+
+  const parseTerm = (): ExpressionNode => {
+    let left = parseUnary();
+    while (isPunct('*') || isPunct('/')) {
+      const op = next().value as '*' | '/';
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseExpression = (): ExpressionNode => {
+    let left = parseTerm();
+    while (isPunct('+') || isPunct('-')) {
+      const op = next().value as '+' | '-';
+      left = { kind: 'binary', op, left, right: parseTerm() };
+    }
+    return left;
+  };
+
+  // --- Clauses ---
+
+  const parseList = (): ArrayNode => {
+    if (isPunct('[')) return parseArray();
+    expectPunct('(');
+    const items: ValueNode[] = [];
+    do {
+      items.push(parseValue());
+    } while (acceptPunct(','));
+    expectPunct(')');
+    return { kind: 'array', items };
+  };
+
+  // Aggregate calls are only meaningful in HAVING, which runs after grouping
+  let allowAggregates = false;
+
+  const parsePredicate = (): ConditionNode => {
+    if (acceptPunct('(')) {
+      const inner = parseCondition();
+      expectPunct(')');
+      return inner;
+    }
+
+    const fn = peekAggregate();
+    if (fn) {
+      if (!allowAggregates) fail('a field name (aggregate functions are only allowed in HAVING)');
+      const field = parseAggregateCall(fn) ?? '*';
+      const opToken = peek();
+      const op = opToken.type === 'punct' ? COMPARISON_OPS[opToken.value] : undefined;
+      if (!op) return fail('a comparison operator (=, !=, <, <=, >, >=)');
+      next();
+      return { kind: 'comparison', field, op, value: parseValue(), aggregate: fn };
+    }
+
+    // Functions of fields cannot be pushed down to Firestore; they become client predicates
+    if (allowAggregates && isCallTo(SCALAR_FUNCTIONS)) fail('a field name (functions are only allowed in WHERE)');
+    const left: ExpressionNode = isCallTo(SCALAR_FUNCTIONS) ? parseExpression() : { kind: 'fieldRef', path: parseField() };
+
+    const predicate = (op: ComparisonOp | MatchOp, value: ValueNode, negated = false): ConditionNode => {
+      if (left.kind === 'fieldRef' && !isMatchOp(op)) return { kind: 'comparison', field: left.path, op, value };
+      return { kind: 'clientPredicate', left, op, value, negated: negated || undefined };
+    };
+
+    const negated = acceptWord('NOT');
+    const matchOp = peek().type === 'identifier' ? MATCH_OPS[peek().value.toUpperCase()] : undefined;
+    if (matchOp) {
+      if (allowAggregates) fail('a comparison operator (LIKE, ILIKE and REGEXP are only allowed in WHERE)');
+      next();
+      return predicate(matchOp, parseValue(), negated);
+    }
+    if (negated) {
+      if (!isWord('IN')) fail('IN, LIKE, ILIKE or REGEXP');
+      next();
+      return predicate('not-in', parseList());
+    }
+    if (acceptWord('IN')) return predicate('in', parseList());
+
+    if (left.kind === 'fieldRef') {
+      const field = left.path;
+      if (acceptWord('ARRAY_CONTAINS_ANY')) return { kind: 'comparison', field, op: 'array-contains-any', value: parseList() };
+      if (acceptWord('ARRAY_CONTAINS')) return { kind: 'comparison', field, op: 'array-contains', value: parseValue() };
+    }
+
+    const opToken = peek();
+    const op = opToken.type === 'punct' ? COMPARISON_OPS[opToken.value] : undefined;
+    if (!op) {
+      // CONTAINS(...) on its own is a boolean test
+      if (left.kind === 'scalar' && left.fn === 'contains') return predicate('==', { kind: 'literal', value: true });
+      return fail('a comparison operator (=, !=, <, <=, >, >=, IN, NOT IN, LIKE, ILIKE, REGEXP, ARRAY_CONTAINS, ARRAY_CONTAINS_ANY)');
+    }
+    next();
+    return predicate(op, parseValue());
+  };
+
+  // Parses `operand (WORD operand)*`, flattening into a single and/or node
+  const parseLogical = (word: 'AND' | 'OR', operand: () => ConditionNode): ConditionNode => {
+    const conditions = [operand()];
+    while (acceptWord(word)) {
+      conditions.push(operand());
+    }
+    if (conditions.length === 1) return conditions[0];
+
+    const kind = word === 'AND' ? 'and' : 'or';
+    return {
+      kind,
+      conditions: conditions.flatMap(c => (c.kind === kind ? c.conditions : [c])),
+    };
+  };
+
+  const parseCondition = (): ConditionNode =>
+    parseLogical('OR', () => parseLogical('AND', parsePredicate));
+
+  const peekAggregate = (): AggregateFunction | undefined =>
+    peek().type === 'identifier' && isPunct('(', peek(1))
+      ? AGGREGATES[peek().value.toUpperCase()]
+      : undefined;
+
+  // Parses fn '(' field ')' where COUNT also takes '*' (returned as undefined)
+  const parseAggregateCall = (fn: AggregateFunction): string | undefined => {
+    next();
+    expectPunct('(');
+    const field = fn === 'count' && acceptPunct('*') ? undefined : parseField();
+    expectPunct(')');
+    return field;
+  };
+
+  const parseProjectionItem = (): ProjectionItem => {
+    const fn = peekAggregate();
+    if (!fn) return { kind: 'field', path: parseField() };
+    return { kind: 'aggregate', fn, field: parseAggregateCall(fn) };
+  };
+
+  const parseProjection = (): ProjectionItem[] | undefined => {
+    if (acceptPunct('*')) return undefined;
+
+    const items: ProjectionItem[] = [];
+    do {
+      const item = parseProjectionItem();
+      if (acceptWord('AS')) {
+        item.alias = parseName();
+      } else if ((peek().type === 'identifier' && !isWord('FROM')) || peek().type === 'quotedIdentifier') {
+        item.alias = parseName();
+      }
+      items.push(item);
+    } while (acceptPunct(','));
+    return items;
+  };
+
+  const parseWholeNumber = (min: number): number => {
+    const token = peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value) || parseInt(token.value, 10) < min) {
+      return fail(min > 0 ? 'a positive whole number' : 'a whole number');
+    }
+    next();
+    return parseInt(token.value, 10);
+  };
+
+  const parseOrderBy = (): OrderByItem[] => {
+    expectWord('BY');
+    const items: OrderByItem[] = [];
+    do {
+      const field = parseField();
+      let direction: OrderByItem['direction'] = 'asc';
+      if (acceptWord('DESC')) direction = 'desc';
+      else acceptWord('ASC');
+      items.push({ field, direction });
+    } while (acceptPunct(','));
+    return items;
+  };
+
+  const parseJsonPayload = (): ObjectNode => {
+    expectWord('JSON');
+    if (!isPunct('{')) fail('a JSON object');
+    return parseObject();
+  };
+
+  // --- Statements ---
+
+  const parseGroupBy = (): string[] => {
+    expectWord('BY');
+    const fields: string[] = [];
+    do {
+      fields.push(parseField());
+    } while (acceptPunct(','));
+    return fields;
+  };
+
+  const parseHaving = (): ConditionNode => {
+    allowAggregates = true;
+    const condition = parseCondition();
+    allowAggregates = false;
+    return condition;
+  };
+
+  const parseTableAlias = (): string | undefined => {
+    if (acceptWord('AS')) return parseName();
+    const token = peek();
+    if (token.type === 'quotedIdentifier') return parseName();
+    if (token.type === 'identifier' && !TABLE_FOLLOWERS.has(token.value.toUpperCase())) return parseName();
+    return undefined;
+  };
+
+  const parseJoins = (): JoinClause[] => {
+    const joins: JoinClause[] = [];
+    for (;;) {
+      let type: JoinClause['type'] = 'inner';
+      if (acceptWord('LEFT')) {
+        acceptWord('OUTER');
+        expectWord('JOIN');
+        type = 'left';
+      } else if (acceptWord('INNER')) {
+        expectWord('JOIN');
+      } else if (!acceptWord('JOIN')) {
+        return joins;
+      }
+
+      const collection = parsePath();
+      const alias = parseTableAlias() ?? collection.slice(collection.lastIndexOf('/') + 1);
+      expectWord('ON');
+      const onToken = peek();
+      const left = parseField();
+      if (!acceptPunct('=') && !acceptPunct('==')) fail("'='");
+      const right = parseField();
+
+      // Joined documents are looked up by ID, so one side must be alias.id
+      const joinedId = `${alias}.id`;
+      if (right !== joinedId && left !== joinedId) fail(`${joinedId} on one side of ON (joins look documents up by ID)`, onToken);
+      joins.push({ type, collection, alias, localField: right === joinedId ? left : right });
+    }
+  };
+
+  const parseSelect = (): SelectStatement => {
+    expectWord('SELECT');
+    const distinct = acceptWord('DISTINCT') || undefined;
+    if (distinct && isPunct('*')) fail('a column list after DISTINCT');
+    const fields = parseProjection();
+    expectWord('FROM');
+    const after = peek(1);
+    const collectionGroup = isWord('GROUP') &&
+      (after.type === 'string' || after.type === 'quotedIdentifier' ||
+        (after.type === 'identifier' && !SELECT_CLAUSES.has(after.value.toUpperCase())));
+    if (collectionGroup) next();
+    const collection = parsePath();
+    const alias = parseTableAlias();
+    const joins = parseJoins();
+    const where = acceptWord('WHERE') ? parseCondition() : undefined;
+    const groupBy = acceptWord('GROUP') ? parseGroupBy() : undefined;
+    const having = acceptWord('HAVING') ? parseHaving() : undefined;
+    const orderBy = acceptWord('ORDER') ? parseOrderBy() : undefined;
+
+    let limit: number | 'all' | undefined;
+    let offset: number | undefined;
+    let scanLimit: number | undefined;
+    for (;;) {
+      if (limit === undefined && acceptWord('LIMIT')) {
+        limit = acceptWord('ALL') ? 'all' : parseWholeNumber(1);
+      } else if (offset === undefined && acceptWord('OFFSET')) {
+        offset = parseWholeNumber(0);
+      } else if (scanLimit === undefined && acceptWord('SCAN')) {
+        expectWord('LIMIT');
+        scanLimit = parseWholeNumber(1);
+      } else {
+        break;
+      }
+    }
+
+    return { kind: 'select', collection, collectionGroup: collectionGroup || undefined, alias, joins: joins.length > 0 ? joins : undefined, fields, distinct, where, groupBy, having, orderBy, limit, offset, scanLimit };
+  };
+
+  const parseDocId = (): string => {
+    const token = peek();
+    if (token.type !== 'string' && token.type !== 'number') return fail('a document ID');
+    if (!token.value || token.value.includes('/')) fail("a document ID without '/'");
+    next();
+    return token.value;
+  };
+
+  // Columns may be dotted paths; their values are nested into maps
+  const rowObject = (columns: string[], values: ValueNode[]): ObjectNode => {
+    const root: ObjectNode = { kind: 'object', entries: [] };
+    columns.forEach((column, i) => {
+      const keys = column.split('.');
+      let target = root;
+      for (const key of keys.slice(0, -1)) {
+        let child = target.entries.find(e => e.key === key)?.value;
+        if (child?.kind !== 'object') {
+          child = { kind: 'object', entries: [] };
+          target.entries.push({ key, value: child });
+        }
+        target = child;
+      }
+      target.entries.push({ key: keys[keys.length - 1], value: values[i] });
+    });
+    return root;
+  };
+
+  const parseValuesRows = (): InsertRow[] => {
+    expectPunct('(');
+    const columns: string[] = [];
+    do {
+      columns.push(parseField());
+    } while (acceptPunct(','));
+    expectPunct(')');
+    const idIndex = columns.indexOf('id');
+    const fields = columns.filter((_, i) => i !== idIndex);
+
+    expectWord('VALUES');
+    const rows: InsertRow[] = [];
+    do {
+      expectPunct('(');
+      let id: string | undefined;
+      const values: ValueNode[] = [];
+      columns.forEach((_, i) => {
+        if (i > 0) expectPunct(',');
+        if (i === idIndex) id = parseDocId();
+        else values.push(parseValue());
+      });
+      if (!isPunct(')')) fail(`')' (${columns.length} columns were listed)`);
+      next();
+      rows.push({ id, data: rowObject(fields, values) });
+    } while (acceptPunct(','));
+    return rows;
+  };
+
+  const parseInsert = (): InsertStatement => {
+    const upsert = isWord('UPSERT');
+    next();
+    expectWord('INTO');
+    const collection = parsePath();
+
+    let rows: InsertRow[];
+    if (isPunct('(')) {
+      rows = parseValuesRows();
+    } else if (acceptWord('ID')) {
+      const id = parseDocId();
+      rows = [{ id, data: parseJsonPayload() }];
+    } else if (isWord('JSON') && isPunct('[', peek(1))) {
+      next();
+      next();
+      rows = [];
+      do {
+        if (!isPunct('{')) fail('a JSON object');
+        rows.push({ data: parseObject() });
+      } while (acceptPunct(','));
+      expectPunct(']');
+    } else {
+      rows = [{ data: parseJsonPayload() }];
+    }
+
+    let merge = upsert;
+    if (acceptWord('ON')) {
+      expectWord('CONFLICT');
+      expectWord('MERGE');
+      merge = true;
+    }
+    return { kind: 'insert', collection, rows, merge: merge || undefined };
+  };
+
+  const parseAssignments = (): Assignment[] => {
+    const assignments: Assignment[] = [];
+    do {
+      const path = parseField();
+      if (!acceptPunct('=') && !acceptPunct('==')) fail("'='");
+      assignments.push({ path, value: parseExpression() });
+    } while (acceptPunct(','));
+    return assignments;
+  };
+
+  const parseUpdate = (): UpdateStatement => {
+    expectWord('UPDATE');
+    const collection = parsePath();
+    expectWord('SET');
+    // `SET json = ...` still assigns a field named json
+    const isJson = isWord('JSON') && !isPunct('=', peek(1)) && !isPunct('.', peek(1));
+    const data = isJson ? parseJsonPayload() : undefined;
+    const assignments = isJson ? undefined : parseAssignments();
+    expectWord('WHERE');
+    return { kind: 'update', collection, data, assignments, where: parseCondition() };
+  };
+
+  const parseDelete = (): DeleteStatement => {
+    expectWord('DELETE');
+    expectWord('FROM');
+    const collection = parsePath();
+    expectWord('WHERE');
+    return { kind: 'delete', collection, where: parseCondition() };
+  };
+
+  const parsePreview = (): Statement => {
+    if (!acceptWord('PREVIEW')) {
+      expectWord('EXPLAIN');
+      if (isWord('SELECT')) return { ...parseSelect(), explain: true };
+      if (!acceptWord('WRITE')) return fail('SELECT or WRITE');
+    }
+    if (isWord('UPDATE')) return { ...parseUpdate(), preview: true };
+    if (isWord('DELETE')) return { ...parseDelete(), preview: true };
+    return fail('UPDATE or DELETE');
+  };
+
+  const parseAnyStatement = (): Statement => {
+    if (isWord('SELECT')) return parseSelect();
+    if (acceptWord('LIVE')) return { ...parseSelect(), live: true };
+    if (isWord('INSERT') || isWord('UPSERT')) return parseInsert();
+    if (isWord('UPDATE')) return parseUpdate();
+    if (isWord('DELETE')) return parseDelete();
+    if (isWord('PREVIEW') || isWord('EXPLAIN')) return parsePreview();
+    return fail('SELECT, INSERT, UPSERT, UPDATE, DELETE, PREVIEW or EXPLAIN');
+  };
+
+  // --- Scripts ---
+
+  // Keeps the statement's own source text for labelling its result
+  const parseScriptStatement = (): ScriptStatement => {
+    const start = peek().start;
+    const statement = parseAnyStatement();
+    return { kind: 'statement', statement, text: source.slice(start, tokens[pos - 1].end) };
+  };
+
+  const parseTransaction = (): ScriptItem => {
+    expectWord('BEGIN');
+    acceptWord('TRANSACTION');
+    expectPunct(';');
+
+    const statements: ScriptStatement[] = [];
+    while (!isWord('COMMIT') && !isWord('ROLLBACK')) {
+      if (acceptPunct(';')) continue;
+      if (peek().type === 'eof') fail('COMMIT or ROLLBACK');
+      if (isWord('BEGIN')) fail('COMMIT or ROLLBACK before the next BEGIN');
+      statements.push(parseScriptStatement());
+      if (!isWord('COMMIT') && !isWord('ROLLBACK') && peek().type !== 'eof') expectPunct(';');
+    }
+
+    const rollback = isWord('ROLLBACK');
+    next();
+    return { kind: 'transaction', statements, rollback };
+  };
+
+  const parseSingle = (): Statement => {
+    const statement = parseAnyStatement();
+    acceptPunct(';');
+    if (peek().type !== 'eof') fail('end of query');
+    return statement;
+  };
+
+  const parseScript = (): ScriptItem[] => {
+    const items: ScriptItem[] = [];
+    do {
+      items.push(isWord('BEGIN') ? parseTransaction() : parseScriptStatement());
+      if (peek().type !== 'eof' && !isPunct(';')) fail("';' or end of query");
+      while (acceptPunct(';')) { /* empty statements */ }
+    } while (peek().type !== 'eof');
+    return items;
+  };
+
+  return { parseSingle, parseScript };
+};
+
+export const parseStatement = (source: string): Statement => createParser(source).parseSingle();
+
+// Semicolon-separated statements and BEGIN ... COMMIT blocks
+export const parseScript = (source: string): ScriptItem[] => createParser(source).parseScript();
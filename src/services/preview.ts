@@ -0,0 +1,55 @@
+import { Timestamp } from 'firebase/firestore';
+import { FieldChange, PendingWrite } from '../types';
+import { PATH_COLUMN } from './firebaseService';
+import { sentinelOf } from './literals';
+import { compareValues, getFieldValue } from './values';
+
+/**
+ * Before/after diffs for writes that have not been committed yet.
+ *
+ * Used for PREVIEW / EXPLAIN WRITE and for every UPDATE or DELETE that
+ * touches more than one document; nothing is written until the user
+ * confirms the pending write.
+ */
+
+export const PREVIEW_COLUMNS = ['id', 'field', 'before', 'after'];
+
+// What a sentinel will turn the current value into, as far as the client can tell
+const applySentinel = (before: any, after: any) => {
+  const sentinel = sentinelOf(after);
+  if (!sentinel) return after;
+
+  const current = Array.isArray(before) ? before : [];
+  const contains = (list: any[], v: any) => list.some(item => compareValues(item, v) === 0);
+  switch (sentinel.fn) {
+    case 'delete_field': return undefined;
+    case 'now': return Timestamp.now(); // Approximates the server time at commit
+    case 'increment': return (typeof before === 'number' ? before : 0) + sentinel.args[0];
+    case 'array_union': return [...current, ...sentinel.args.filter(v => !contains(current, v))];
+    case 'array_remove': return current.filter(v => !contains(sentinel.args, v));
+    default: return after;
+  }
+};
+
+const documentFields = (row: Record<string, any>) =>
+  Object.keys(row).filter(k => k !== 'id' && k !== PATH_COLUMN);
+
+export const diffWrite = (rows: Record<string, any>[], write: PendingWrite['write']): FieldChange[] =>
+  rows.flatMap(row => {
+    const doc = { id: row.id, path: row[PATH_COLUMN] };
+
+    if (write.kind === 'delete') {
+      const fields = documentFields(row);
+      // Keep empty documents visible in the preview
+      if (fields.length === 0) return [{ ...doc, field: '*', before: {}, after: undefined }];
+      return fields.map(field => ({ ...doc, field, before: row[field], after: undefined }));
+    }
+
+    // Update keys are field paths, as in updateDoc(). Computed updates are
+    // evaluated against the current values; the commit re-evaluates them.
+    const data = write.kind === 'compute' ? write.compute(row) : write.data;
+    return Object.keys(data).map(field => {
+      const before = getFieldValue(row, field);
+      return { ...doc, field, before, after: applySentinel(before, data[field]) };
+    });
+  });
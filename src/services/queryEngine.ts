@@ -1,141 +1,899 @@
-import { executeSelect, executeInsert, executeUpdate, executeDelete } from './firebaseService';
-import { QueryResult } from '../types';
+import {
+  executeSelect,
+  executeGetDoc,
+  executeAggregate,
+  executeUpdate,
+  executeDelete,
+  executeBatchWrite,
+  executeTransaction,
+  executeSetDocs,
+  subscribeDoc,
+  subscribeSelect,
+  newDocPath,
+  AggregateRequest,
+  BatchWrite,
+  SetDocRequest,
+  SetDocStatus,
+  TransactionOp,
+  PATH_COLUMN
+} from './firebaseService';
+import { parseScript, parseStatement } from './parser';
+import { ParseError } from './diagnostics';
+import {
+  AggregateProjection,
+  ConditionNode,
+  DeleteStatement,
+  FieldProjection,
+  InsertStatement,
+  OrderByItem,
+  ProjectionItem,
+  ScriptItem,
+  SelectStatement,
+  Statement,
+  TransactionBlock,
+  UpdateStatement,
+} from './ast';
+import { evaluateExpression, isConstant } from './expressions';
+import { compileFilter, evaluateValue } from './filters';
+import { columnName, DEFAULT_SCAN_LIMIT, groupRows, needsClientGrouping } from './grouping';
+import { bindParameters, QueryParams } from './parameters';
+import { comparesDocumentId, compileResidual, hasClientPredicate, splitCondition, SplitCondition } from './residual';
+import { runJoin, stripTableAlias } from './joins';
+import { explainSelect } from './explain';
+import { parseIndexError } from './indexes';
+import { diffWrite, PREVIEW_COLUMNS } from './preview';
+import { compareValues, getFieldValue } from './values';
+import { LiveChange, PendingWrite, QueryResult, ScriptResult } from '../types';
 
 /**
- * A simple regex-based parser for a SQL dialect tailored for Firestore.
- * 
+ * Executes FireSQL statements against Firestore.
+ *
+ * The query text is tokenized and parsed into an AST (see parser.ts), then
+ * each statement kind is dispatched to the matching firebaseService call.
+ *
  * Supported Syntax:
- * SELECT * FROM collection [WHERE field = value] [LIMIT n]
+ * SELECT * | field [AS alias], ... FROM [GROUP] collection [WHERE condition]
+ *   [ORDER BY field [ASC|DESC], ...] [LIMIT n | LIMIT ALL] [OFFSET n]
+ *   condition: field op value, field [NOT] IN (...), field ARRAY_CONTAINS value,
+ *              field ARRAY_CONTAINS_ANY (...), combined with AND / OR / parentheses
+ *   values: JSON literals, TIMESTAMP('iso'), GEOPOINT(lat, lng), REF('col/doc'), NOW(),
+ *           or :name / $1 parameters bound from the `params` argument
+ *   client-side: field [NOT] LIKE/ILIKE/REGEXP 'pattern', LOWER(field) = ...,
+ *              LENGTH(...), CONTAINS(field, 'x'), YEAR/MONTH/DAY/DATE(field).
+ *              The rest of the WHERE runs in Firestore; these are checked while
+ *              pages stream in, until LIMIT matches or SCAN LIMIT n documents
+ *              (default 1000) have been scanned.
+ * SELECT COUNT(*), SUM(field), AVG(field) FROM collection [WHERE condition]
+ * SELECT [DISTINCT] key, COUNT(*), MIN(field), ... FROM collection [WHERE condition]
+ *   GROUP BY key [HAVING condition] [ORDER BY ...] [LIMIT n] [SCAN LIMIT n]
+ * SELECT * FROM collection/docId   -- reads a single document
+ * SELECT e.amount, c.name FROM expenses e [LEFT] JOIN categories c ON e.categoryId = c.id
+ *   joined documents are looked up by ID (or DocumentReference) in batches;
+ *   WHERE/ORDER BY on the FROM table run in Firestore, the rest after joining
  * INSERT INTO collection JSON {"key": "value"}
- * UPDATE collection SET JSON {"key": "newVal"} WHERE id = 'docId'
- * DELETE FROM collection WHERE id = 'docId'
+ * INSERT INTO collection ID 'docId' JSON {...}
+ * INSERT INTO collection JSON [{...}, {...}]
+ * INSERT INTO collection (id, field, nested.field) VALUES (...), (...)
+ *   UPSERT INTO ... or a trailing ON CONFLICT MERGE merges into existing documents;
+ *   otherwise an explicit ID overwrites. Each row reports created/merged/overwritten.
+ *   writes also accept INCREMENT(n), DELETE_FIELD(), ARRAY_UNION(...), ARRAY_REMOVE(...)
+ * UPDATE collection SET JSON {"key": "newVal"} WHERE condition
+ * UPDATE collection SET field = expr, nested.field = expr, ... WHERE condition
+ *   expr: values, fields, + - * /, LOWER/UPPER/TRIM/LENGTH/CONCAT/COALESCE/ABS/ROUND;
+ *   expressions that read fields are evaluated per document inside a transaction
+ * DELETE FROM collection WHERE condition
+ *   WHERE id = 'docId' writes one document; any other condition is resolved
+ *   with a query and written in chunked batches.
+ * EXPLAIN SELECT ...
+ *   Lists the Firestore constraints, the client-side steps, ordering rules and
+ *   the composite indexes the query needs, without reading any documents.
+ *   Missing-index errors from Firestore are decoded into an index definition.
+ * PREVIEW | EXPLAIN WRITE (UPDATE ... | DELETE ...)
+ *   Lists the affected documents with a before/after diff and commits nothing.
+ *   Writes that match more than one document are always previewed first and
+ *   committed through commitWrite() once the user confirms.
+ * LIVE SELECT ... (or watchQuery() for any SELECT)
+ *   Subscribes with onSnapshot and reports every change with the rows added,
+ *   modified and removed since the previous snapshot. Only WHERE, ORDER BY,
+ *   LIMIT and column lists can be watched.
+ *
+ * Scripts (runScript) are semicolon-separated statements run in order, each
+ * with its own result; the script stops at the first error or pending preview.
+ * BEGIN; ...; COMMIT runs its statements atomically (writeBatch, or
+ * runTransaction when the block reads documents); ROLLBACK discards the
+ * writes. Inside a block, SELECT can only read document paths and must come
+ * before the first write, as Firestore transactions require.
  */
 
+// Default page size when no LIMIT is given (LIMIT ALL fetches everything)
+const DEFAULT_LIMIT = 5;
 
-const removeQuotes = (str: string) => str.replace(/^['"]|['"]$/g, '');
+const isFieldProjection = (item: ProjectionItem): item is FieldProjection => item.kind === 'field';
 
-export const runQuery = async (queryString: string, startAfterDoc?: any): Promise<QueryResult> => {
-  const q = queryString.trim();
+// The Web SDK has no field-mask (select) support, so projection is applied
+// to the fetched documents before they reach the results table.
+const project = (rows: Record<string, any>[], fields: FieldProjection[]) =>
+  rows.map(row => {
+    const projected: Record<string, any> = { id: row.id, [PATH_COLUMN]: row[PATH_COLUMN] };
+    for (const field of fields) {
+      projected[columnName(field)] = getFieldValue(row, field.path);
+    }
+    return projected;
+  });
 
-  try {
-    // --- SELECT ---
-    // Regex: SELECT * FROM <collection> [WHERE <field> <op> <value>] [LIMIT <number>]
-    const selectRegex = /^SELECT\s+\*\s+FROM\s+([a-zA-Z0-9_/-]+)(?:\s+WHERE\s+([a-zA-Z0-9_.]+)\s*(=|!=|>|<|>=|<=)\s*(.+?))?(?:\s+LIMIT\s+(\d+))?$/i;
-    const selectMatch = q.match(selectRegex);
-
-    if (selectMatch) {
-      const collection = selectMatch[1];
-      
-      // Where Clause
-      const whereField = selectMatch[2];
-      const whereOp = selectMatch[3];
-      const whereVal = selectMatch[4]; // Non-greedy match before optional limit
-
-      // Limit Clause
-      const limitValStr = selectMatch[5];
-      // Default to 5 if not specified, per requirements
-      const limitVal = limitValStr ? parseInt(limitValStr, 10) : 5;
-
-      let whereClause = undefined;
-      if (whereField && whereOp && whereVal) {
-        whereClause = { field: whereField, op: whereOp, value: whereVal.trim() };
+// users/abc123 names a document; users and users/abc123/posts name collections
+const isDocumentPath = (path: string) => path.split('/').length % 2 === 0;
+
+const docIdOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// `WHERE id = '...'` addresses a single document without querying first
+const singleDocId = (where: ConditionNode): string | undefined => {
+  if (where.kind !== 'comparison' || where.field !== 'id' || where.op !== '==' || where.value.kind !== 'literal') {
+    return undefined;
+  }
+  const id = where.value.value;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+};
+
+// SELECT COUNT(*), SUM(x), AVG(x) runs as a Firestore aggregation query
+const runAggregate = async (stmt: SelectStatement): Promise<QueryResult> => {
+  const items = stmt.fields ?? [];
+  const plainField = items.find(isFieldProjection);
+  if (plainField) {
+    throw new Error(`Cannot select '${plainField.path}' alongside aggregate functions.`);
+  }
+  if (stmt.offset !== undefined) {
+    throw new Error("OFFSET is not supported in aggregate queries.");
+  }
+
+  // needsClientGrouping() has already routed MIN/MAX and COUNT(field) elsewhere
+  const aggregates = items.filter((item): item is AggregateProjection => item.kind === 'aggregate');
+  const requests = aggregates.map(a => ({ fn: a.fn as AggregateRequest['fn'], field: a.field }));
+  const values = await executeAggregate(stmt.collection, requests, {
+    collectionGroup: stmt.collectionGroup,
+    filter: stmt.where ? compileFilter(stmt.where) : undefined,
+    orderBy: stmt.orderBy,
+    // Unlike row reads, there is no default page size: aggregate the whole match
+    limit: typeof stmt.limit === 'number' ? stmt.limit : undefined
+  });
+
+  const columns = aggregates.map(columnName);
+  const row: Record<string, any> = {};
+  columns.forEach((col, i) => { row[col] = values[i]; });
+
+  return {
+    type: 'aggregate',
+    columns,
+    rows: [row],
+    message: `Aggregated '${stmt.collection}' on the server (no documents downloaded)`,
+    collectionName: stmt.collection
+  };
+};
+
+// Documents fetched per round trip while a residual filter scans
+const SCAN_PAGE_SIZE = 200;
+
+interface FilteredScan {
+  rows: Record<string, any>[]; // Matching documents, in query order
+  scanned: number;
+  lastDoc?: any;               // Last scanned snapshot, for the next page
+  budgetReached: boolean;      // More documents remained when the budget ran out
+}
+
+// Streams pages of the pushed-down query through the residual (client-side)
+// filter until `wanted` documents match, `budget` documents have been scanned
+// or the query runs out. `orderBy` is the server-side order of the scan.
+const scanFiltered = async (
+  stmt: SelectStatement,
+  split: SplitCondition,
+  orderBy: OrderByItem[] | undefined,
+  wanted: number,
+  budget: number,
+  startAfterDoc?: any
+): Promise<FilteredScan> => {
+  const test = compileResidual(split.residual!);
+  const filter = split.pushdown ? compileFilter(split.pushdown) : undefined;
+  const rows: Record<string, any>[] = [];
+  let scanned = 0;
+  let lastDoc = startAfterDoc;
+  let budgetReached = false;
+
+  for (;;) {
+    // One document past the budget tells whether the budget cut the scan short
+    const pageSize = Math.min(SCAN_PAGE_SIZE, budget - scanned + 1);
+    const page = await executeSelect(stmt.collection, {
+      collectionGroup: stmt.collectionGroup,
+      filter,
+      orderBy,
+      limit: pageSize,
+      startAfterDoc: lastDoc
+    });
+
+    for (let i = 0; i < page.rows.length && rows.length < wanted; i++) {
+      if (scanned === budget) {
+        budgetReached = true;
+        break;
       }
+      scanned++;
+      lastDoc = page.docs[i];
+      if (test(page.rows[i])) rows.push(page.rows[i]);
+    }
+    if (budgetReached || rows.length >= wanted || page.rows.length < pageSize) break;
+  }
 
-      const { rows, lastDoc } = await executeSelect(collection, whereClause, limitVal, startAfterDoc);
+  return { rows, scanned, lastDoc: scanned > 0 ? lastDoc : undefined, budgetReached };
+};
 
-      const columns = rows.length > 0 ? ['id', ...Object.keys(rows[0]).filter(k => k !== 'id')] : ['id'];
+// GROUP BY / HAVING / DISTINCT: fetch up to the scan cap, then group in the client
+const runGrouped = async (stmt: SelectStatement): Promise<QueryResult> => {
+  const scanLimit = stmt.scanLimit ?? DEFAULT_SCAN_LIMIT;
+  const split = splitCondition(stmt.where, stmt.collectionGroup);
 
-      return {
-        type: 'read',
-        columns,
-        rows,
-        message: `Fetched ${rows.length} documents from '${collection}'`,
-        collectionName: collection,
-        lastDoc // Return for pagination
-      };
+  let scanned: Record<string, any>[];
+  let truncated: boolean;
+  let scanNote = '';
+  if (split.residual) {
+    // ORDER BY names output columns here; the groups are sorted after grouping
+    const scan = await scanFiltered(stmt, split, undefined, Infinity, scanLimit);
+    scanned = scan.rows;
+    truncated = scan.budgetReached;
+    scanNote = ` (${scan.rows.length} of ${scan.scanned} scanned documents matched the client-side filter)`;
+  } else {
+    // One extra document tells us whether the cap cut the data short
+    const { rows } = await executeSelect(stmt.collection, {
+      collectionGroup: stmt.collectionGroup,
+      filter: stmt.where ? compileFilter(stmt.where) : undefined,
+      limit: scanLimit + 1
+    });
+    truncated = rows.length > scanLimit;
+    scanned = truncated ? rows.slice(0, scanLimit) : rows;
+  }
+
+  const grouped = groupRows(stmt, scanned);
+
+  let message = `Grouped ${scanned.length} documents from '${stmt.collection}' into ${grouped.rows.length} rows${scanNote}`;
+  if (truncated) {
+    message += ` — Warning: scan cap of ${scanLimit} documents reached, results are incomplete (raise it with SCAN LIMIT n)`;
+  }
+
+  return {
+    type: 'aggregate',
+    columns: grouped.columns,
+    rows: grouped.rows,
+    message,
+    collectionName: stmt.collection
+  };
+};
+
+// SELECT * columns: the ID first, then the fields of the first document
+const documentColumns = (rows: Record<string, any>[]) =>
+  rows.length > 0
+    ? ['id', ...Object.keys(rows[0]).filter(k => k !== 'id' && k !== PATH_COLUMN)]
+    : ['id'];
+
+const assertDocumentRead = (stmt: SelectStatement) => {
+  if (stmt.where || stmt.joins || stmt.groupBy || stmt.having || stmt.orderBy || stmt.distinct ||
+      stmt.fields?.some(f => f.kind === 'aggregate')) {
+    throw new Error(`'${stmt.collection}' is a document path; only a column list is allowed when reading a single document.`);
+  }
+};
+
+const documentReadResult = (stmt: SelectStatement, row: Record<string, any> | null): QueryResult => {
+  const rows = row ? [row] : [];
+  const parent = stmt.collection.slice(0, stmt.collection.lastIndexOf('/'));
+  const message = row ? `Fetched document '${stmt.collection}'` : `Document '${stmt.collection}' not found`;
+
+  if (stmt.fields) {
+    const fields = stmt.fields.filter(isFieldProjection);
+    const columns = fields.map(columnName);
+    const fieldPaths: Record<string, string> = {};
+    fields.forEach((f, i) => { fieldPaths[columns[i]] = f.path; });
+    return { type: 'read', columns, rows: project(rows, fields), message, collectionName: parent, fieldPaths };
+  }
+
+  return { type: 'read', columns: documentColumns(rows), rows, message, collectionName: parent };
+};
+
+// SELECT ... FROM users/abc123: a single getDoc instead of a query
+const runGetDoc = async (stmt: SelectStatement): Promise<QueryResult> => {
+  assertDocumentRead(stmt);
+  return documentReadResult(stmt, await executeGetDoc(stmt.collection));
+};
+
+const runSelect = async (parsed: SelectStatement, startAfterDoc?: any): Promise<QueryResult> => {
+  const stmt = parsed.joins ? parsed : stripTableAlias(parsed);
+  const documentRead = !stmt.collectionGroup && isDocumentPath(stmt.collection);
+  const limit = stmt.limit === 'all' ? undefined : stmt.limit ?? DEFAULT_LIMIT;
+  if (stmt.live) {
+    throw new Error("LIVE SELECT keeps a listener open; run it on its own rather than in a script.");
+  }
+  if (stmt.explain) {
+    if (documentRead) assertDocumentRead(stmt);
+    return explainSelect(stmt, limit, documentRead);
+  }
+  if (documentRead) {
+    return runGetDoc(stmt);
+  }
+  if (stmt.joins) {
+    return runJoin(stmt, limit, startAfterDoc);
+  }
+  const split = splitCondition(stmt.where, stmt.collectionGroup);
+  const hasAggregates = !!stmt.fields?.some(f => f.kind === 'aggregate');
+  // The server cannot aggregate over a client-side filter, so those aggregate in the client too
+  if (needsClientGrouping(stmt) || (hasAggregates && split.residual)) {
+    return runGrouped(stmt);
+  }
+  if (hasAggregates) {
+    return runAggregate(stmt);
+  }
+
+  let rows: Record<string, any>[];
+  let lastDoc: any;
+  let message: string;
+
+  if (split.residual) {
+    // OFFSET counts matching documents and, like the server-side offset, only applies to the first page
+    const skip = startAfterDoc ? 0 : stmt.offset ?? 0;
+    const budget = stmt.scanLimit ?? DEFAULT_SCAN_LIMIT;
+    const scan = await scanFiltered(stmt, split, stmt.orderBy, skip + (limit ?? Infinity), budget, startAfterDoc);
+    rows = scan.rows.slice(skip);
+    lastDoc = scan.lastDoc;
+    message = `Fetched ${rows.length} documents from '${stmt.collection}' — ` +
+      `${scan.rows.length} of ${scan.scanned} scanned documents matched the client-side filter`;
+    if (scan.budgetReached) {
+      message += ` — Warning: scan budget of ${budget} documents reached${limit ? ' before LIMIT was filled' : ''} (raise it with SCAN LIMIT n)`;
     }
+  } else {
+    ({ rows, lastDoc } = await executeSelect(stmt.collection, {
+      collectionGroup: stmt.collectionGroup,
+      filter: stmt.where ? compileFilter(stmt.where) : undefined,
+      orderBy: stmt.orderBy,
+      limit,
+      offset: stmt.offset,
+      startAfterDoc
+    }));
+    message = `Fetched ${rows.length} documents from '${stmt.collection}'`;
+  }
+
+  return readResult(stmt, rows, message, lastDoc);
+};
+
+const readResult = (stmt: SelectStatement, rows: Record<string, any>[], message: string, lastDoc?: any): QueryResult => {
+  if (stmt.fields) {
+    const fields = stmt.fields.filter(isFieldProjection);
+    const columns = fields.map(columnName);
+    const fieldPaths: Record<string, string> = {};
+    fields.forEach((f, i) => { fieldPaths[columns[i]] = f.path; });
+
+    return {
+      type: 'read',
+      columns,
+      rows: project(rows, fields),
+      message,
+      collectionName: stmt.collection,
+      collectionGroup: stmt.collectionGroup,
+      fieldPaths,
+      lastDoc
+    };
+  }
+
+  return {
+    type: 'read',
+    columns: documentColumns(rows),
+    rows,
+    message,
+    collectionName: stmt.collection,
+    collectionGroup: stmt.collectionGroup,
+    lastDoc // Return for pagination
+  };
+};
+
+const STATUS_LABELS: Record<SetDocStatus, string> = {
+  created: 'Created',
+  merged: 'Merged',
+  overwritten: 'Overwritten',
+};
+
+// Documents an INSERT writes; auto-generated IDs are reserved up front
+const insertDocs = (stmt: InsertStatement): SetDocRequest[] =>
+  stmt.rows.map(row => ({
+    path: row.id !== undefined ? `${stmt.collection}/${row.id}` : newDocPath(stmt.collection),
+    data: evaluateValue(row.data, 'write'),
+    autoId: row.id === undefined
+  }));
+
+// Writes the documents and reports which were created, merged or overwritten
+const writeInsert = async (collectionName: string, docs: SetDocRequest[], merge: boolean): Promise<QueryResult> => {
+  const statuses = await executeSetDocs(docs, merge);
+  const rows = docs.map((d, i) => ({ id: docIdOf(d.path), status: STATUS_LABELS[statuses[i]] }));
+
+  const summary = (Object.keys(STATUS_LABELS) as SetDocStatus[])
+    .map(status => ({ status, n: statuses.filter(st => st === status).length }))
+    .filter(({ n }) => n > 0)
+    .map(({ status, n }) => `${n} ${status}`)
+    .join(', ');
+
+  return {
+    type: 'write',
+    columns: ['id', 'status'],
+    rows,
+    message: rows.length === 1 && statuses[0] === 'created'
+      ? `Document created in '${collectionName}' with ID: ${rows[0].id}`
+      : `Wrote ${rows.length} document${rows.length === 1 ? '' : 's'} to '${collectionName}': ${summary}`,
+    collectionName
+  };
+};
+
+// Explicit IDs use setDoc semantics: an existing document is overwritten,
+// or merged into with UPSERT / ON CONFLICT MERGE
+const runInsert = (stmt: InsertStatement): Promise<QueryResult> =>
+  writeInsert(stmt.collection, insertDocs(stmt), !!stmt.merge);
+
+// A row from the results table's Insert Row form. Its values are already
+// evaluated; an 'id' field becomes the document ID, as in INSERT ... (id, ...).
+export const insertRow = async (collectionName: string, data: Record<string, any>): Promise<QueryResult> => {
+  try {
+    const { id, ...fields } = data;
+    const autoId = id === undefined || id === '';
+    const path = autoId ? newDocPath(collectionName) : `${collectionName}/${id}`;
+    return await writeInsert(collectionName, [{ path, data: fields, autoId }], false);
+  } catch (err: any) {
+    return errorResult(err);
+  }
+};
+
+const errorResult = (err: any): QueryResult => {
+  // A missing composite index comes back as a failed-precondition with a console link
+  const missingIndex = parseIndexError(err);
+  return {
+    type: 'error',
+    columns: [],
+    rows: [],
+    message: err.message || "Unknown error occurred",
+    diagnostics: err instanceof ParseError ? [err.diagnostic] : undefined,
+    indexes: missingIndex?.index && [missingIndex.index],
+    indexUrl: missingIndex?.url
+  };
+};
+
+// Documents an UPDATE/DELETE will touch: a direct read for `WHERE id = '...'`,
+// otherwise a query over the collection
+const resolveTargets = async (stmt: UpdateStatement | DeleteStatement) => {
+  const docId = singleDocId(stmt.where);
+  if (docId !== undefined) {
+    const row = await executeGetDoc(`${stmt.collection}/${docId}`);
+    return row ? [row] : [];
+  }
+  // Writes need every match, so a residual filter scans the whole pushed-down result
+  const { pushdown, residual } = splitCondition(stmt.where);
+  const { rows } = await executeSelect(stmt.collection, { filter: pushdown ? compileFilter(pushdown) : undefined });
+  return residual ? rows.filter(compileResidual(residual)) : rows;
+};
+
+const verbFor = (write: BatchWrite) => (write.kind === 'update' ? 'updated' : 'deleted');
+
+// Commits a previewed (or auto-confirmed) write in batches and reports each committed batch
+export const commitWrite = async (pending: PendingWrite): Promise<QueryResult> => {
+  try {
+    const batches = await executeBatchWrite(pending.docPaths, pending.write);
+    return {
+      type: 'write',
+      columns: ['batch', 'documents', 'status'],
+      rows: batches.map((size, i) => ({ batch: i + 1, documents: size, status: 'Committed' })),
+      message: `${pending.docPaths.length} documents ${verbFor(pending.write)} in '${pending.collectionName}' (${batches.length} batch${batches.length === 1 ? '' : 'es'} committed)`,
+      collectionName: pending.collectionName
+    };
+  } catch (err: any) {
+    return errorResult(err);
+  }
+};
+
+// UPDATE/DELETE with a predicate or PREVIEW. Writes touching more than one
+// document always stop at a preview and wait for confirmation.
+const runResolvedWrite = async (stmt: UpdateStatement | DeleteStatement, write: BatchWrite): Promise<QueryResult> => {
+  const rows = await resolveTargets(stmt);
+
+  if (rows.length === 0) {
+    return {
+      type: 'write',
+      columns: ['batch', 'documents', 'status'],
+      rows: [],
+      message: `No documents in '${stmt.collection}' match the WHERE clause; nothing was ${verbFor(write)}`,
+      collectionName: stmt.collection
+    };
+  }
+
+  const pending: PendingWrite = {
+    collectionName: stmt.collection,
+    docPaths: rows.map(r => r[PATH_COLUMN]),
+    write
+  };
+
+  if (!stmt.preview && rows.length === 1) {
+    return commitWrite(pending);
+  }
+
+  return {
+    type: 'preview',
+    columns: PREVIEW_COLUMNS,
+    rows: diffWrite(rows, write),
+    message: `Preview: ${rows.length} document${rows.length === 1 ? '' : 's'} in '${stmt.collection}' will be ${verbFor(write)}. Nothing has been written yet.`,
+    collectionName: stmt.collection,
+    pendingWrite: pending
+  };
+};
 
-    // --- INSERT ---
-    // Regex: INSERT INTO <collection> JSON <json_string>
-    const insertRegex = /^INSERT\s+INTO\s+([a-zA-Z0-9_/-]+)\s+JSON\s+(.+)$/i;
-    const insertMatch = q.match(insertRegex);
+// SET JSON {...} and constant assignments write the same data to every
+// document; assignments that read fields are computed per document
+const updateWrite = (stmt: UpdateStatement): Exclude<BatchWrite, { kind: 'delete' }> => {
+  if (stmt.data) return { kind: 'update', data: evaluateValue(stmt.data, 'write') };
 
-    if (insertMatch) {
-      const collection = insertMatch[1];
-      const jsonStr = insertMatch[2];
-      let jsonData;
+  const assignments = stmt.assignments ?? [];
+  const evaluate = (row: Record<string, any>) => {
+    const data: Record<string, any> = {};
+    for (const a of assignments) {
       try {
-        jsonData = JSON.parse(jsonStr);
-      } catch (e) {
-        throw new Error("Invalid JSON in INSERT statement.");
+        data[a.path] = evaluateExpression(a.value, row);
+      } catch (err: any) {
+        throw new Error(`SET ${a.path}${row.id ? ` (document '${row.id}')` : ''}: ${err.message}`);
       }
+    }
+    return data;
+  };
 
-      const result = await executeInsert(collection, jsonData);
-      return {
-        type: 'write',
-        columns: ['id', 'status'],
-        rows: [{ id: result.id, status: 'Created' }],
-        message: `Document created in '${collection}' with ID: ${result.id}`,
-        collectionName: collection
-      };
+  return assignments.every(a => isConstant(a.value))
+    ? { kind: 'update', data: evaluate({}) }
+    : { kind: 'compute', compute: evaluate };
+};
+
+const runUpdate = async (stmt: UpdateStatement): Promise<QueryResult> => {
+  const docId = singleDocId(stmt.where);
+  const write = updateWrite(stmt);
+  // Computed updates read the document, so even a single one goes through a transaction
+  if (docId === undefined || stmt.preview || write.kind === 'compute') {
+    return runResolvedWrite(stmt, write);
+  }
+  await executeUpdate(stmt.collection, docId, write.data);
+  return {
+    type: 'write',
+    columns: ['id', 'status'],
+    rows: [{ id: docId, status: 'Updated' }],
+    message: `Document '${docId}' updated in '${stmt.collection}'`,
+    collectionName: stmt.collection
+  };
+};
+
+const runDelete = async (stmt: DeleteStatement): Promise<QueryResult> => {
+  const docId = singleDocId(stmt.where);
+  if (docId === undefined || stmt.preview) {
+    return runResolvedWrite(stmt, { kind: 'delete' });
+  }
+  await executeDelete(stmt.collection, docId);
+  return {
+    type: 'write',
+    columns: ['id', 'status'],
+    rows: [{ id: docId, status: 'Deleted' }],
+    message: `Document '${docId}' deleted from '${stmt.collection}'`,
+    collectionName: stmt.collection
+  };
+};
+
+const executeStatement = (stmt: Statement, startAfterDoc?: any): Promise<QueryResult> => {
+  switch (stmt.kind) {
+    case 'select': return runSelect(stmt, startAfterDoc);
+    case 'insert': return runInsert(stmt);
+    case 'update': return runUpdate(stmt);
+    case 'delete': return runDelete(stmt);
+  }
+};
+
+export const runQuery = async (queryString: string, startAfterDoc?: any, params: QueryParams = {}): Promise<QueryResult> => {
+  try {
+    const statement = bindParameters(parseStatement(queryString), params);
+    return await executeStatement(statement, startAfterDoc);
+  } catch (err: any) {
+    return errorResult(err);
+  }
+};
+
+// --- Live queries ---
+
+// Listeners only see what Firestore itself evaluates
+const assertWatchable = (stmt: SelectStatement, residual: ConditionNode | undefined) => {
+  const unsupported = [
+    stmt.explain && 'EXPLAIN',
+    stmt.joins && 'JOIN',
+    (stmt.groupBy || stmt.having || stmt.distinct) && 'GROUP BY, HAVING or DISTINCT',
+    stmt.fields?.some(f => f.kind === 'aggregate') && 'aggregate functions',
+    stmt.offset !== undefined && 'OFFSET',
+    residual && hasClientPredicate(residual) && 'LIKE, ILIKE, REGEXP or functions of fields',
+    stmt.collectionGroup && residual && comparesDocumentId(residual) && "'id' comparisons on a collection group",
+  ].filter(Boolean);
+  if (unsupported.length > 0) {
+    throw new Error(`Live queries cannot use ${unsupported.join(', ')}; a Firestore listener only covers WHERE, ORDER BY and LIMIT.`);
+  }
+};
+
+// Row changes between two snapshots of a live result, keyed by document path
+const diffRows = (previous: Record<string, any>[], rows: Record<string, any>[], columns: string[]): LiveChange[] => {
+  const timestamp = Date.now();
+  const before = new Map(previous.map(row => [row[PATH_COLUMN], row]));
+  const after = new Set(rows.map(row => row[PATH_COLUMN]));
+  const changes: LiveChange[] = [];
+
+  for (const row of rows) {
+    const old = before.get(row[PATH_COLUMN]);
+    const change = { id: row.id, path: row[PATH_COLUMN], timestamp };
+    if (!old) {
+      changes.push({ ...change, type: 'added' });
+      continue;
     }
+    const keys = Array.from(new Set([...columns, ...Object.keys(row), ...Object.keys(old)]));
+    const fields = keys.filter(k => k !== 'id' && k !== PATH_COLUMN && compareValues(row[k], old[k]) !== 0);
+    if (fields.length > 0) changes.push({ ...change, type: 'modified', fields });
+  }
+  for (const row of previous) {
+    if (!after.has(row[PATH_COLUMN])) changes.push({ id: row.id, path: row[PATH_COLUMN], type: 'removed', timestamp });
+  }
+  return changes;
+};
 
-    // --- UPDATE ---
-    // Regex: UPDATE <collection> SET JSON <json_string> WHERE id = <value>
-    const updateRegex = /^UPDATE\s+([a-zA-Z0-9_/-]+)\s+SET\s+JSON\s+(.+)\s+WHERE\s+id\s*=\s*(.+)$/i;
-    const updateMatch = q.match(updateRegex);
+const changeSummary = (changes: LiveChange[]) =>
+  (['added', 'modified', 'removed'] as const)
+    .map(type => ({ type, n: changes.filter(c => c.type === type).length }))
+    .filter(({ n }) => n > 0)
+    .map(({ type, n }) => `${n} ${type}`)
+    .join(', ');
 
-    if (updateMatch) {
-      const collection = updateMatch[1];
-      const jsonStr = updateMatch[2];
-      const rawId = updateMatch[3];
-      const docId = removeQuotes(rawId);
+export const isLiveQuery = (queryString: string) => {
+  try {
+    const statement = parseStatement(queryString);
+    return statement.kind === 'select' && !!statement.live;
+  } catch (e) {
+    return false;
+  }
+};
 
-      let jsonData;
-      try {
-        jsonData = JSON.parse(jsonStr);
-      } catch (e) {
-        throw new Error("Invalid JSON in UPDATE statement.");
-      }
+// Whether the Watch toggle applies: a single SELECT that reads documents.
+// Writes, scripts and EXPLAIN run once as usual.
+export const isWatchable = (queryString: string) => {
+  try {
+    const statement = parseStatement(queryString);
+    return statement.kind === 'select' && !statement.explain;
+  } catch (e) {
+    return false;
+  }
+};
 
-      await executeUpdate(collection, docId, jsonData);
-      return {
-        type: 'write',
-        columns: ['id', 'status'],
-        rows: [{ id: docId, status: 'Updated' }],
-        message: `Document '${docId}' updated in '${collection}'`,
-        collectionName: collection
-      };
+// Source text of each statement that would write, transactions included.
+// PREVIEW and EXPLAIN WRITE commit nothing and are left out; a script that
+// does not parse has none, since it fails before anything runs.
+export const listWrites = (source: string): string[] => {
+  let items: ScriptItem[];
+  try {
+    items = parseScript(source);
+  } catch (e) {
+    return [];
+  }
+  return items
+    .flatMap(item => (item.kind === 'transaction' ? item.statements : [item]))
+    .filter(({ statement }) => statement.kind === 'insert' || ((statement.kind === 'update' || statement.kind === 'delete') && !statement.preview))
+    .map(s => s.text);
+};
+
+// Subscribes a SELECT (LIVE SELECT, or any SELECT when watched) with onSnapshot.
+// onResult receives a full result on every snapshot, with the row changes
+// since the previous one; errors arrive as error results. Returns the
+// function that stops listening.
+export const watchQuery = (
+  queryString: string,
+  params: QueryParams,
+  onResult: (result: QueryResult) => void
+): (() => void) => {
+  try {
+    const statement = bindParameters(parseStatement(queryString), params);
+    if (statement.kind !== 'select') {
+      throw new Error("Only SELECT queries can be watched.");
+    }
+    const stmt = statement.joins ? statement : stripTableAlias(statement);
+    const split = splitCondition(stmt.where, stmt.collectionGroup);
+    assertWatchable(stmt, split.residual);
+
+    let previous: QueryResult | undefined;
+    const emit = (next: QueryResult, fromCache: boolean) => {
+      const changes = previous ? diffRows(previous.rows, next.rows, next.columns) : [];
+      const removed = new Set(changes.filter(c => c.type === 'removed').map(c => c.path));
+      const time = new Date().toLocaleTimeString();
+      let message = `Live: ${next.message}`;
+      message += previous ? ` — ${changeSummary(changes) || 'no visible changes'} at ${time}` : ` — listening since ${time}`;
+      if (fromCache) message += ' (offline, from cache)';
+
+      onResult({
+        ...next,
+        message,
+        live: true,
+        changes,
+        removedRows: previous?.rows.filter(row => removed.has(row[PATH_COLUMN]))
+      });
+      previous = next;
+    };
+    const onError = (err: Error) => onResult(errorResult(err));
+
+    if (!stmt.collectionGroup && isDocumentPath(stmt.collection)) {
+      assertDocumentRead(stmt);
+      return subscribeDoc(stmt.collection, (row, fromCache) => emit(documentReadResult(stmt, row), fromCache), onError);
     }
 
-    // --- DELETE ---
-    // Regex: DELETE FROM <collection> WHERE id = <value>
-    const deleteRegex = /^DELETE\s+FROM\s+([a-zA-Z0-9_/-]+)\s+WHERE\s+id\s*=\s*(.+)$/i;
-    const deleteMatch = q.match(deleteRegex);
+    const limit = stmt.limit === 'all' ? undefined : stmt.limit ?? DEFAULT_LIMIT;
+    return subscribeSelect(stmt.collection, {
+      collectionGroup: stmt.collectionGroup,
+      filter: stmt.where ? compileFilter(stmt.where) : undefined,
+      orderBy: stmt.orderBy,
+      limit
+    }, (rows, fromCache) => {
+      const message = `${rows.length} documents from '${stmt.collection}'`;
+      emit(readResult(stmt, rows, message), fromCache);
+    }, onError);
+  } catch (err: any) {
+    onResult(errorResult(err));
+    return () => {};
+  }
+};
+
+// --- Scripts ---
+
+const notRun = (message: string): QueryResult => ({ type: 'skipped', columns: [], rows: [], message });
+
+// A statement inside BEGIN ... COMMIT, turned into transaction ops before anything is written
+interface PlannedStatement {
+  ops: TransactionOp[];
+  // Builds the statement's result from the documents read for its 'get' ops
+  finish: (reads: (Record<string, any> | null)[], committed: boolean) => QueryResult;
+}
 
-    if (deleteMatch) {
-      const collection = deleteMatch[1];
-      const rawId = deleteMatch[2];
-      const docId = removeQuotes(rawId);
+const toOp = (path: string, write: BatchWrite): TransactionOp => {
+  switch (write.kind) {
+    case 'update': return { kind: 'update', path, data: write.data };
+    case 'compute': return { kind: 'compute', path, compute: write.compute };
+    case 'delete': return { kind: 'delete', path };
+  }
+};
+
+// `statuses` labels each op's document once committed
+const plannedWrite = (collectionName: string, ops: TransactionOp[], statuses: string[]): PlannedStatement => {
+  const verb = statuses.every(st => st === statuses[0]) ? statuses[0].toLowerCase() : 'written';
+  const count = `${ops.length} document${ops.length === 1 ? '' : 's'}`;
+  return {
+    ops,
+    finish: (_reads, committed) => ({
+      type: 'write',
+      columns: ['id', 'status'],
+      rows: ops.map((op, i) => ({ id: docIdOf(op.path), status: committed ? statuses[i] : 'Rolled back' })),
+      message: committed
+        ? `${count} ${verb} in '${collectionName}' (transaction committed)`
+        : `Rolled back: ${count} in '${collectionName}' would have been ${verb}`,
+      collectionName
+    })
+  };
+};
 
-      await executeDelete(collection, docId);
+const planStatement = async (stmt: Statement, afterWrites: boolean): Promise<PlannedStatement> => {
+  switch (stmt.kind) {
+    case 'select': {
+      if (stmt.explain || stmt.live) {
+        throw new Error(`${stmt.explain ? 'EXPLAIN' : 'LIVE SELECT'} cannot be used inside BEGIN ... COMMIT; run it on its own.`);
+      }
+      if (stmt.collectionGroup || !isDocumentPath(stmt.collection)) {
+        throw new Error("Inside BEGIN ... COMMIT, SELECT can only read a document path (Firestore transactions cannot run queries).");
+      }
+      if (afterWrites) {
+        throw new Error("Firestore transactions must read before they write; move this SELECT above the first write.");
+      }
+      assertDocumentRead(stmt);
       return {
-        type: 'write',
-        columns: ['id', 'status'],
-        rows: [{ id: docId, status: 'Deleted' }],
-        message: `Document '${docId}' deleted from '${collection}'`,
-        collectionName: collection
+        ops: [{ kind: 'get', path: stmt.collection }],
+        finish: reads => documentReadResult(stmt, reads[0])
       };
     }
+    case 'insert': {
+      // Existence is not checked inside a block, so explicit IDs are reported as written
+      const docs = insertDocs(stmt);
+      return plannedWrite(
+        stmt.collection,
+        docs.map(d => ({ kind: 'set', path: d.path, data: d.data, merge: stmt.merge })),
+        docs.map(d => (d.autoId ? 'Created' : stmt.merge ? 'Upserted' : 'Written'))
+      );
+    }
+    case 'update':
+    case 'delete': {
+      if (stmt.preview) {
+        throw new Error("PREVIEW cannot be used inside BEGIN ... COMMIT; use ROLLBACK to try a block without writing.");
+      }
+      // Predicates are resolved with a query before the block is committed
+      const docId = singleDocId(stmt.where);
+      const paths = docId !== undefined
+        ? [`${stmt.collection}/${docId}`]
+        : (await resolveTargets(stmt)).map(r => r[PATH_COLUMN]);
+      const write: BatchWrite = stmt.kind === 'update' ? updateWrite(stmt) : { kind: 'delete' };
+      const status = stmt.kind === 'update' ? 'Updated' : 'Deleted';
+      return plannedWrite(stmt.collection, paths.map(path => toOp(path, write)), paths.map(() => status));
+    }
+  }
+};
+
+// Plans every statement first, then commits them together. Any failure
+// (or ROLLBACK) leaves the database untouched.
+const runTransactionBlock = async (block: TransactionBlock): Promise<ScriptResult[]> => {
+  if (block.statements.length === 0) {
+    return [{ statement: block.rollback ? 'BEGIN; ROLLBACK' : 'BEGIN; COMMIT', result: notRun('Empty transaction; nothing to do') }];
+  }
 
-    throw new Error("Syntax error: Query not recognized. Use SELECT, INSERT, UPDATE, or DELETE with supported syntax.");
+  const plans: PlannedStatement[] = [];
+  for (const entry of block.statements) {
+    try {
+      plans.push(await planStatement(entry.statement, plans.some(p => p.ops.some(op => op.kind !== 'get'))));
+    } catch (err: any) {
+      return block.statements.map(e => ({
+        statement: e.text,
+        result: e === entry ? errorResult(err) : notRun('Not run: the transaction was aborted and nothing was written')
+      }));
+    }
+  }
 
+  // After ROLLBACK only the reads are performed
+  const ops = plans.flatMap(p => p.ops).filter(op => !block.rollback || op.kind === 'get');
+  let reads: (Record<string, any> | null)[];
+  try {
+    reads = ops.length > 0 ? await executeTransaction(ops) : [];
   } catch (err: any) {
-    return {
-      type: 'error',
-      columns: [],
-      rows: [],
-      message: err.message || "Unknown error occurred"
-    };
+    return block.statements.map(e => ({
+      statement: e.text,
+      result: errorResult(new Error(`Transaction failed, nothing was written: ${err.message}`))
+    }));
+  }
+
+  return plans.map((plan, i) => {
+    const gets = plan.ops.filter(op => op.kind === 'get').length;
+    return { statement: block.statements[i].text, result: plan.finish(reads.splice(0, gets), !block.rollback) };
+  });
+};
+
+const runScriptItem = async (item: ScriptItem): Promise<ScriptResult[]> => {
+  if (item.kind === 'transaction') return runTransactionBlock(item);
+  try {
+    return [{ statement: item.text, result: await executeStatement(item.statement) }];
+  } catch (err: any) {
+    return [{ statement: item.text, result: errorResult(err) }];
   }
-};
\ No newline at end of file
+};
+
+export const runScript = async (source: string, params: QueryParams = {}): Promise<ScriptResult[]> => {
+  let items: ScriptItem[];
+  try {
+    items = bindParameters(parseScript(source), params);
+  } catch (err: any) {
+    return [{ statement: source.trim(), result: errorResult(err) }];
+  }
+
+  const results: ScriptResult[] = [];
+  let stopReason: string | undefined;
+
+  for (const item of items) {
+    if (stopReason) {
+      const entries = item.kind === 'transaction' ? item.statements : [item];
+      results.push(...entries.map(e => ({ statement: e.text, result: notRun(stopReason!) })));
+      continue;
+    }
+
+    const itemResults = await runScriptItem(item);
+    results.push(...itemResults);
+
+    if (itemResults.some(r => r.result.type === 'error')) {
+      stopReason = 'Not run: an earlier statement failed';
+    } else if (itemResults.some(r => r.result.pendingWrite)) {
+      stopReason = 'Not run: an earlier write is waiting for confirmation';
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,114 @@
+import { ClientPredicateNode, ConditionNode, MatchOp } from './ast';
+import { evaluateExpression } from './expressions';
+import { evaluateValue } from './filters';
+import { getFieldValue, matchesComparison } from './values';
+
+/**
+ * Residual (client-side) filtering for WHERE predicates Firestore cannot run:
+ * LIKE, ILIKE, REGEXP and comparisons on functions of fields.
+ *
+ * The WHERE is split into the conjuncts Firestore can evaluate, which are
+ * pushed down to the query, and a residual condition checked against each
+ * fetched document. An OR containing any client predicate stays entirely in
+ * the residual, since Firestore has to return every branch's candidates.
+ *
+ * On a collection group, documentId() filters need full document paths, so
+ * comparisons on 'id' (a bare document ID) are checked in the client as well.
+ */
+
+export type RowPredicate = (row: Record<string, any>) => boolean;
+
+export interface SplitCondition {
+  pushdown?: ConditionNode;
+  residual?: ConditionNode;
+}
+
+const MATCH_NAMES: Record<MatchOp, string> = { like: 'LIKE', ilike: 'ILIKE', regexp: 'REGEXP' };
+
+export const hasClientPredicate = (c: ConditionNode): boolean =>
+  c.kind === 'clientPredicate' || (c.kind !== 'comparison' && c.conditions.some(hasClientPredicate));
+
+export const comparesDocumentId = (c: ConditionNode): boolean =>
+  c.kind === 'comparison' ? c.field === 'id' : c.kind !== 'clientPredicate' && c.conditions.some(comparesDocumentId);
+
+const conjunction = (conditions: ConditionNode[]): ConditionNode | undefined => {
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { kind: 'and', conditions };
+};
+
+export const splitCondition = (where: ConditionNode | undefined, collectionGroup?: boolean): SplitCondition => {
+  if (!where) return {};
+  const parts = where.kind === 'and' ? where.conditions : [where];
+  const inClient = (c: ConditionNode) => hasClientPredicate(c) || (!!collectionGroup && comparesDocumentId(c));
+  return {
+    pushdown: conjunction(parts.filter(c => !inClient(c))),
+    residual: conjunction(parts.filter(inClient)),
+  };
+};
+
+// LIKE patterns: % matches any run of characters, _ exactly one
+const likeToRegExp = (pattern: string, ignoreCase: boolean) => {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '[\\s\\S]*')
+    .replace(/_/g, '[\\s\\S]');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+};
+
+const compilePattern = (op: MatchOp, node: ClientPredicateNode): RegExp => {
+  const pattern = evaluateValue(node.value);
+  if (typeof pattern !== 'string') throw new Error(`${MATCH_NAMES[op]} needs a string pattern.`);
+  if (op !== 'regexp') return likeToRegExp(pattern, op === 'ilike');
+  try {
+    return new RegExp(pattern);
+  } catch (err: any) {
+    throw new Error(`Invalid REGEXP pattern '${pattern}': ${err.message}`);
+  }
+};
+
+const compileClientPredicate = (node: ClientPredicateNode): RowPredicate => {
+  // As in Firestore, a document whose value has the wrong type (or is
+  // missing or NULL) does not match rather than failing the whole query
+  const operand = (row: Record<string, any>) => {
+    try {
+      return evaluateExpression(node.left, row, 'filter') ?? undefined;
+    } catch (err) {
+      return undefined;
+    }
+  };
+
+  const op = node.op;
+  switch (op) {
+    case 'like':
+    case 'ilike':
+    case 'regexp': {
+      const regex = compilePattern(op, node);
+      return row => {
+        const actual = operand(row);
+        return typeof actual === 'string' && regex.test(actual) !== !!node.negated;
+      };
+    }
+    default: {
+      const expected = evaluateValue(node.value);
+      return row => matchesComparison(operand(row), op, expected);
+    }
+  }
+};
+
+// Throws up front for invalid patterns, before any document is fetched
+export const compileResidual = (condition: ConditionNode): RowPredicate => {
+  switch (condition.kind) {
+    case 'comparison': {
+      const expected = evaluateValue(condition.value);
+      return row => matchesComparison(getFieldValue(row, condition.field), condition.op, expected);
+    }
+    case 'clientPredicate':
+      return compileClientPredicate(condition);
+    default: {
+      const tests = condition.conditions.map(compileResidual);
+      return condition.kind === 'and'
+        ? row => tests.every(test => test(row))
+        : row => tests.some(test => test(row));
+    }
+  }
+};
@@ -0,0 +1,67 @@
+import { executeSelect, PATH_COLUMN } from './firebaseService';
+import { valueType } from './values';
+import { CollectionSchema, FieldType, SchemaField } from '../types';
+
+/**
+ * Schema inference: Firestore collections have no declared schema, so the
+ * fields, their types and how often they occur are inferred from a sample of
+ * documents. Nested maps are walked into; array elements are not.
+ */
+
+// Documents read per collection
+export const SCHEMA_SAMPLE_SIZE = 50;
+
+interface FieldStats {
+  count: number;
+  types: Partial<Record<FieldType, number>>;
+  children: Map<string, FieldStats>;
+}
+
+const record = (fields: Map<string, FieldStats>, key: string, value: any) => {
+  let stats = fields.get(key);
+  if (!stats) {
+    stats = { count: 0, types: {}, children: new Map() };
+    fields.set(key, stats);
+  }
+  const type = valueType(value);
+  stats.count++;
+  stats.types[type] = (stats.types[type] ?? 0) + 1;
+  if (type === 'map') {
+    Object.entries(value).forEach(([k, v]) => record(stats!.children, k, v));
+  }
+};
+
+// `total` is how many documents (or parent maps) could have had the field
+const toFields = (fields: Map<string, FieldStats>, total: number, prefix = ''): SchemaField[] =>
+  Array.from(fields.entries())
+    .map(([name, stats]) => ({
+      name,
+      path: `${prefix}${name}`,
+      count: stats.count,
+      types: stats.types,
+      nullable: stats.count < total || !!stats.types.null,
+      children: stats.children.size > 0 ? toFields(stats.children, stats.types.map ?? 0, `${prefix}${name}.`) : undefined,
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
+export const inferSchema = (collection: string, rows: Record<string, any>[]): CollectionSchema => {
+  const fields = new Map<string, FieldStats>();
+  for (const row of rows) {
+    Object.entries(row)
+      .filter(([key]) => key !== 'id' && key !== PATH_COLUMN)
+      .forEach(([key, value]) => record(fields, key, value));
+  }
+  return { collection, sampled: rows.length, fields: toFields(fields, rows.length), inferredAt: Date.now() };
+};
+
+export const sampleSchema = async (collection: string, size = SCHEMA_SAMPLE_SIZE): Promise<CollectionSchema> => {
+  const { rows } = await executeSelect(collection, { limit: size });
+  return inferSchema(collection, rows);
+};
+
+// Most frequent non-null type; 'null' when the field was only ever null
+export const dominantType = (field: SchemaField): FieldType => {
+  const types = (Object.keys(field.types) as FieldType[]).filter(t => t !== 'null');
+  if (types.length === 0) return 'null';
+  return types.reduce((best, t) => (field.types[t]! > field.types[best]! ? t : best));
+};
@@ -0,0 +1,123 @@
+import { ComparisonOp } from './ast';
+import { FieldType } from '../types';
+
+/**
+ * Client-side value helpers for the stages Firestore cannot run itself
+ * (grouping, HAVING, sorting of derived rows).
+ *
+ * Comparisons follow Firestore semantics where practical: values of different
+ * types never satisfy a range comparison, and missing fields never match.
+ */
+
+// Resolves a dotted path (e.g. address.city) against a fetched row
+export const getFieldValue = (row: Record<string, any>, path: string): any => {
+  if (path in row) return row[path];
+  return path.split('.').reduce<any>(
+    (value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined),
+    row
+  );
+};
+
+const isTimestamp = (v: any) => v !== null && typeof v === 'object' && typeof v.toMillis === 'function';
+const isReference = (v: any) => v !== null && typeof v === 'object' && typeof v.path === 'string' && 'firestore' in v;
+const isGeoPoint = (v: any) => v !== null && typeof v === 'object' && typeof v.latitude === 'number' && typeof v.longitude === 'number';
+
+// Firestore's cross-type ordering: null < boolean < number < timestamp < string < reference < geopoint < array < map
+const typeRank = (v: any): number => {
+  if (v === null || v === undefined) return 0;
+  if (typeof v === 'boolean') return 1;
+  if (typeof v === 'number') return 2;
+  if (isTimestamp(v) || v instanceof Date) return 3;
+  if (typeof v === 'string') return 4;
+  if (isReference(v)) return 6;
+  if (isGeoPoint(v)) return 7;
+  if (Array.isArray(v)) return 8;
+  return 9;
+};
+
+// Renders Timestamps, GeoPoints and references in FireSQL literal syntax;
+// undefined for every other value
+export const formatTypedValue = (v: any): string | undefined => {
+  if (isTimestamp(v)) return `TIMESTAMP('${v.toDate().toISOString()}')`;
+  if (isReference(v)) return `REF('${v.path}')`;
+  if (isGeoPoint(v)) return `GEOPOINT(${v.latitude}, ${v.longitude})`;
+  return undefined;
+};
+
+// Firestore type of a fetched value, as reported by the schema sampler
+export const valueType = (v: any): FieldType => {
+  if (v === null || v === undefined) return 'null';
+  if (typeof v === 'boolean') return 'boolean';
+  if (typeof v === 'number') return 'number';
+  if (typeof v === 'string') return 'string';
+  if (isTimestamp(v) || v instanceof Date) return 'timestamp';
+  if (isReference(v)) return 'reference';
+  if (isGeoPoint(v)) return 'geopoint';
+  if (Array.isArray(v)) return 'array';
+  return 'map';
+};
+
+export const compareValues = (a: any, b: any): number => {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  switch (rankA) {
+    case 0:
+      return 0;
+    case 1:
+    case 2:
+      return a === b ? 0 : a < b ? -1 : 1;
+    case 3: {
+      const msA = a instanceof Date ? a.getTime() : a.toMillis();
+      const msB = b instanceof Date ? b.getTime() : b.toMillis();
+      return msA - msB;
+    }
+    case 4:
+      return a === b ? 0 : a < b ? -1 : 1;
+    case 6:
+      return compareValues(a.path, b.path);
+    case 7:
+      return compareValues(a.latitude, b.latitude) || compareValues(a.longitude, b.longitude);
+    case 8: {
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const c = compareValues(a[i], b[i]);
+        if (c !== 0) return c;
+      }
+      return a.length - b.length;
+    }
+    default: {
+      const keysA = Object.keys(a).sort();
+      const keysB = Object.keys(b).sort();
+      for (let i = 0; i < Math.min(keysA.length, keysB.length); i++) {
+        const c = compareValues(keysA[i], keysB[i]) || compareValues(a[keysA[i]], b[keysB[i]]);
+        if (c !== 0) return c;
+      }
+      return keysA.length - keysB.length;
+    }
+  }
+};
+
+const equals = (a: any, b: any) => typeRank(a) === typeRank(b) && compareValues(a, b) === 0;
+
+export const matchesComparison = (actual: any, op: ComparisonOp, expected: any): boolean => {
+  if (actual === undefined) return false;
+
+  switch (op) {
+    case '==': return equals(actual, expected);
+    case '!=': return !equals(actual, expected);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      if (typeRank(actual) !== typeRank(expected)) return false;
+      const c = compareValues(actual, expected);
+      return op === '<' ? c < 0 : op === '<=' ? c <= 0 : op === '>' ? c > 0 : c >= 0;
+    }
+    case 'in': return expected.some((e: any) => equals(actual, e));
+    case 'not-in': return !expected.some((e: any) => equals(actual, e));
+    case 'array-contains': return Array.isArray(actual) && actual.some(a => equals(a, expected));
+    case 'array-contains-any':
+      return Array.isArray(actual) && expected.some((e: any) => actual.some(a => equals(a, e)));
+  }
+};
@@ -7,19 +7,161 @@ export interface FirebaseConfig {
   appId: string;
 }
 
+export type ProfileEnvironment = 'development' | 'staging' | 'production' | 'other';
+
+// Address of a local Firestore emulator (Firebase Emulator Suite)
+export interface EmulatorTarget {
+  host: string;
+  port: number;
+}
+
+// A named Firebase connection, saved locally and picked in the sidebar
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  environment: ProfileEnvironment; // Colors the environment badge
+  production: boolean; // Every write statement needs an explicit confirmation
+  config: FirebaseConfig; // Only projectId matters for an emulator
+  emulator?: EmulatorTarget;
+}
+
+export type DiagnosticCode =
+  | 'UNEXPECTED_CHARACTER'
+  | 'UNTERMINATED_STRING'
+  | 'UNTERMINATED_COMMENT'
+  | 'INVALID_ESCAPE'
+  | 'UNEXPECTED_TOKEN';
+
+export interface QueryDiagnostic {
+  code: DiagnosticCode;
+  message: string;
+  line: number;   // 1-based
+  column: number; // 1-based
+  start: number;  // Offset into the query text
+  end: number;    // Offset just past the offending span (equal to start at end of input)
+  lineText: string; // Full source line containing `start`, for code frames
+  expected?: string;
+  found?: string;
+}
+
 export interface QueryResult {
   columns: string[];
   rows: Record<string, any>[];
   message?: string;
-  type: 'read' | 'write' | 'error';
+  type: 'read' | 'write' | 'aggregate' | 'preview' | 'explain' | 'skipped' | 'error';
   collectionName?: string;
+  collectionGroup?: boolean; // Rows come from several parent collections; see each row's __path
   lastDoc?: any; // Firestore QueryDocumentSnapshot
+  fieldPaths?: Record<string, string>; // Column name -> document field path, when they differ (aliases, nested paths)
+  diagnostics?: QueryDiagnostic[];
+  pendingWrite?: PendingWrite; // Set on preview results until the write is confirmed or cancelled
+  readOnly?: boolean; // Rows combine several documents (JOIN), so cells cannot be edited in place
+  indexes?: IndexDefinition[]; // Composite indexes the query needs (EXPLAIN), or the one a failed query is missing
+  indexUrl?: string; // Firebase console link from a missing-index error
+  live?: boolean; // Kept up to date by a LIVE SELECT listener
+  changes?: LiveChange[]; // Row changes in the latest live snapshot
+  removedRows?: Record<string, any>[]; // Rows the latest live snapshot removed, shown until the next one
+}
+
+export type LiveChangeType = 'added' | 'modified' | 'removed';
+
+// One row change of a live query, as listed in the change log
+export interface LiveChange {
+  type: LiveChangeType;
+  id: string;
+  path: string;
+  fields?: string[]; // Changed columns of a modified row
+  timestamp: number;
+}
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'timestamp' | 'geopoint' | 'reference' | 'array' | 'map' | 'null';
+
+// One field of an inferred collection schema; nested map fields are children
+export interface SchemaField {
+  name: string;
+  path: string;    // Dotted path from the document root
+  count: number;   // Sampled documents (or parent maps) that have the field
+  types: Partial<Record<FieldType, number>>; // Occurrences per observed type
+  nullable: boolean; // Seen as null, or missing from some documents
+  children?: SchemaField[];
+}
+
+export interface CollectionSchema {
+  collection: string;
+  sampled: number; // Documents read to infer the schema
+  fields: SchemaField[];
+  inferredAt: number;
+}
+
+// Entry of firestore.indexes.json, as deployed with `firebase deploy --only firestore:indexes`
+export interface IndexField {
+  fieldPath: string;
+  order?: 'ASCENDING' | 'DESCENDING';
+  arrayConfig?: 'CONTAINS';
+}
+
+export interface IndexDefinition {
+  collectionGroup: string;
+  queryScope: 'COLLECTION' | 'COLLECTION_GROUP';
+  fields: IndexField[];
+}
+
+// Result of one statement in a script, labelled with its source text
+export interface ScriptResult {
+  statement: string;
+  result: QueryResult;
+}
+
+// One row of a write preview: a field of one document before and after the write
+export interface FieldChange {
+  id: string;
+  path: string;  // Full document path
+  field: string;
+  before: any;   // undefined when the field does not exist yet
+  after: any;    // undefined when the field (or the whole document) is removed
+}
+
+// A write whose target documents are resolved but not committed yet
+export interface PendingWrite {
+  collectionName: string;
+  docPaths: string[];
+  write:
+    | { kind: 'update'; data: Record<string, any> }
+    | { kind: 'compute'; compute: (row: Record<string, any>) => Record<string, any> } // Per-document SET expressions
+    | { kind: 'delete' };
+}
+
+export type ParameterType = 'string' | 'number' | 'boolean' | 'timestamp';
+
+// One field of the parameters form; `value` is the raw text typed by the user
+export interface QueryParameter {
+  name: string; // 'userId' for :userId, '1' for $1
+  type: ParameterType;
+  value: string;
 }
 
 export interface QueryHistoryItem {
+  id: string;
   query: string;
   timestamp: number;
   status: 'success' | 'error';
+  durationMs?: number;
+  rowCount?: number;   // Rows in the results, summed over a script's statements
+  collection?: string;
+  error?: string;      // First error message
+  projectId?: string;  // Firebase project the query ran against
+  pinned?: boolean;    // Kept when old entries are pruned, and listed first
+}
+
+// Entry of the saved-queries library
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  folder?: string;      // Top level when empty
+  description?: string;
+  parameters?: QueryParameter[]; // Defaults for the query's :name / $1 placeholders
+  updatedAt: number;
 }
 
 export enum AppState {